@@ -1,29 +1,53 @@
-import { Switch, Route } from "wouter";
+import { Switch, Route, Link } from "wouter";
+import { History } from "lucide-react";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { LanguageProvider } from "@/lib/language-context";
 import { LanguageSelector } from "@/components/language-selector";
+import { Button } from "@/components/ui/button";
+import { useLanguage } from "@/lib/language-context";
+import { getTranslation } from "@shared/translations";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/home";
+import Jobs from "@/pages/jobs";
+import JobDetail from "@/pages/job-detail";
+import Analyze from "@/pages/analyze";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/jobs" component={Jobs} />
+      <Route path="/jobs/:id" component={JobDetail} />
+      <Route path="/jobs/:id/analyze" component={Analyze} />
       <Route component={NotFound} />
     </Switch>
   );
 }
 
+function Header() {
+  const { language } = useLanguage();
+
+  return (
+    <header className="absolute top-0 right-0 p-2 sm:p-4 z-50 flex items-center gap-1">
+      <Button asChild variant="ghost" size="sm">
+        <Link href="/jobs">
+          <History className="mr-2 h-4 w-4" />
+          {getTranslation("jobs.link", language)}
+        </Link>
+      </Button>
+      <LanguageSelector />
+    </header>
+  );
+}
+
 function App() {
   return (
     <LanguageProvider>
       <QueryClientProvider client={queryClient}>
         <div className="relative min-h-screen">
-          <header className="absolute top-0 right-0 p-2 sm:p-4 z-50">
-            <LanguageSelector />
-          </header>
+          <Header />
           <main className="flex flex-col min-h-screen">
             <Router />
           </main>
@@ -0,0 +1,92 @@
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useLanguage } from "@/lib/language-context";
+import { getTranslation } from "@shared/translations";
+import { analysisOptionsSchema, type AnalysisOptions } from "@shared/schema";
+
+interface AnalysisOptionsFormProps {
+  value: AnalysisOptions;
+  onChange: (options: AnalysisOptions) => void;
+  // Searching a finished job again keeps the mode its faces were stored with
+  canChangeMatchMode?: boolean;
+}
+
+const qualityFilters = analysisOptionsSchema.shape.qualityFilter.removeDefault().options;
+const matchModes = analysisOptionsSchema.shape.matchMode.removeDefault().options;
+
+export function AnalysisOptionsForm({ value, onChange, canChangeMatchMode = true }: AnalysisOptionsFormProps) {
+  const { language } = useLanguage();
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <label htmlFor="similarityThreshold" className="text-sm font-medium">
+          {getTranslation("analysisOptions.threshold", language)}
+        </label>
+        <Input
+          id="similarityThreshold"
+          type="number"
+          min={0}
+          max={100}
+          value={value.similarityThreshold}
+          onChange={(event) => {
+            const threshold = Math.min(100, Math.max(0, Number(event.target.value) || 0));
+            onChange({ ...value, similarityThreshold: threshold });
+          }}
+        />
+      </div>
+      <div className="space-y-2">
+        <label className="text-sm font-medium">
+          {getTranslation("analysisOptions.qualityFilter", language)}
+        </label>
+        <Select
+          value={value.qualityFilter}
+          onValueChange={(qualityFilter) =>
+            onChange({ ...value, qualityFilter: qualityFilter as AnalysisOptions["qualityFilter"] })
+          }
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {qualityFilters.map((filter) => (
+              <SelectItem key={filter} value={filter}>
+                {getTranslation(`analysisOptions.quality.${filter}`, language)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {canChangeMatchMode && (
+        <div className="col-span-2 space-y-2">
+          <label className="text-sm font-medium">
+            {getTranslation("analysisOptions.matchMode", language)}
+          </label>
+          <Select
+            value={value.matchMode}
+            onValueChange={(matchMode) =>
+              onChange({ ...value, matchMode: matchMode as AnalysisOptions["matchMode"] })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {matchModes.map((mode) => (
+                <SelectItem key={mode} value={mode}>
+                  {getTranslation(`analysisOptions.mode.${mode}`, language)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { useState } from "react";
+import { Trash2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useLanguage } from "@/lib/language-context";
+import { getTranslation } from "@shared/translations";
+import { AwsCredentialsForm } from "./aws-credentials-form";
+
+interface DeleteJobButtonProps {
+  jobId: number;
+  onDeleted: () => void;
+}
+
+// Deletes a job after confirming; a job with a face collection may need AWS credentials to remove it
+export function DeleteJobButton({ jobId, onDeleted }: DeleteJobButtonProps) {
+  const { toast } = useToast();
+  const { language } = useLanguage();
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [needsCredentials, setNeedsCredentials] = useState(false);
+
+  const deleteJob = async (credentials?: { awsAccessKeyId: string; awsSecretAccessKey: string }) => {
+    setIsDeleting(true);
+    try {
+      const res = await fetch(`/api/jobs/${jobId}`, {
+        method: "DELETE",
+        headers: credentials ? { "Content-Type": "application/json" } : {},
+        body: credentials ? JSON.stringify(credentials) : undefined,
+        credentials: "include"
+      });
+      if (res.ok) {
+        onDeleted();
+        return;
+      }
+
+      const data = await res.json();
+      if (data.code === "AWS_CREDENTIALS_REQUIRED") {
+        setNeedsCredentials(true);
+        return;
+      }
+      throw new Error(data.error || "Unknown error");
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: getTranslation("error.generic", language),
+        description: (error as Error).message,
+      });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  if (needsCredentials) {
+    return (
+      <div className="space-y-2">
+        <p className="text-sm text-muted-foreground">{getTranslation("jobs.deleteCredentials", language)}</p>
+        <AwsCredentialsForm onSubmit={deleteJob} />
+      </div>
+    );
+  }
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button variant="outline" disabled={isDeleting}>
+          <Trash2 className="mr-2 h-4 w-4" />
+          {getTranslation("jobs.delete", language)}
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{getTranslation("jobs.deleteTitle", language, { id: jobId })}</AlertDialogTitle>
+          <AlertDialogDescription>{getTranslation("jobs.deleteDescription", language)}</AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>{getTranslation("jobs.deleteCancel", language)}</AlertDialogCancel>
+          <AlertDialogAction onClick={() => deleteJob()}>{getTranslation("jobs.delete", language)}</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
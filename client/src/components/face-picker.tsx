@@ -0,0 +1,60 @@
+import { useEffect, useState } from "react";
+import { useLanguage } from "@/lib/language-context";
+import { cn } from "@/lib/utils";
+import { getTranslation } from "@shared/translations";
+import { type DetectedFace } from "@shared/schema";
+
+interface FacePickerProps {
+  file: File;
+  faces: DetectedFace[];
+  selected?: number;
+  onSelect: (faceIndex: number) => void;
+}
+
+// A group photo with a clickable box on every detected face, to say which one is the person
+export default function FacePicker({ file, faces, selected, onSelect }: FacePickerProps) {
+  const { language } = useLanguage();
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    setSrc(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  // Faces are named by where they are on the photo, not by detection order
+  const leftToRight = faces
+    .map((_, index) => index)
+    .sort((a, b) => faces[a].boundingBox.left - faces[b].boundingBox.left);
+
+  return (
+    // Sized by the image, so the boxes' relative coordinates line up with it
+    <div className="relative inline-block overflow-hidden rounded bg-muted">
+      {src && <img src={src} alt={file.name} className="block max-h-64 max-w-full" />}
+      {leftToRight.map((faceIndex, position) => {
+        const { boundingBox } = faces[faceIndex];
+        return (
+          <button
+            key={faceIndex}
+            type="button"
+            className={cn(
+              "absolute rounded-sm border-2 transition-colors",
+              selected === faceIndex
+                ? "border-green-500 bg-green-500/20"
+                : "border-white/80 border-dashed hover:border-primary hover:bg-primary/10"
+            )}
+            style={{
+              left: `${boundingBox.left * 100}%`,
+              top: `${boundingBox.top * 100}%`,
+              width: `${boundingBox.width * 100}%`,
+              height: `${boundingBox.height * 100}%`,
+            }}
+            aria-label={getTranslation("referenceCheck.face", language, { index: position + 1 })}
+            aria-pressed={selected === faceIndex}
+            onClick={() => onSelect(faceIndex)}
+          />
+        );
+      })}
+    </div>
+  );
+}
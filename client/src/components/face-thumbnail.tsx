@@ -0,0 +1,34 @@
+import { type FaceMatch } from "@shared/schema";
+
+interface FaceThumbnailProps {
+  src: string;
+  alt: string;
+  matches?: FaceMatch[];
+}
+
+// Image thumbnail with a box around every face that matched the reference
+export default function FaceThumbnail({ src, alt, matches = [] }: FaceThumbnailProps) {
+  return (
+    // Sized by the image, so the boxes' relative coordinates line up with it
+    <div className="relative inline-block shrink-0 overflow-hidden rounded bg-muted">
+      <img src={src} alt={alt} loading="lazy" className="block max-h-32 max-w-[10rem]" />
+      {matches.map((match, index) => match.boundingBox && (
+        <div
+          key={index}
+          className="absolute border-2 border-green-500 rounded-sm"
+          style={{
+            left: `${match.boundingBox.left * 100}%`,
+            top: `${match.boundingBox.top * 100}%`,
+            width: `${match.boundingBox.width * 100}%`,
+            height: `${match.boundingBox.height * 100}%`,
+          }}
+          title={`${match.similarity.toFixed(1)}%`}
+        >
+          <span className="absolute -top-px -left-px bg-green-500 text-white text-[10px] leading-none px-1 py-0.5">
+            {Math.round(match.similarity)}%
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
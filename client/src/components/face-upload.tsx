@@ -1,15 +1,40 @@
 import { useCallback, useState, useEffect, useRef } from "react";
-import { useDropzone } from "react-dropzone";
 import { useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
-import { Upload } from "lucide-react";
-import { type ScanJob } from "@shared/schema";
+import { Pause, Play, Plus, Upload, X } from "lucide-react";
+import {
+  DEFAULT_ANALYSIS_OPTIONS,
+  getNextImageIndex,
+  HALTED_JOB_STATUSES,
+  MAX_PEOPLE_PER_ANALYSIS,
+  type AnalysisOptions,
+  type JobEvent,
+  type ReferenceCheck,
+  type ScanJob,
+  type ScanResult,
+} from "@shared/schema";
 import { useLanguage } from "@/lib/language-context";
 import { getTranslation } from "@shared/translations";
 import { AwsCredentialsForm } from "./aws-credentials-form";
-import { cn } from "@/lib/utils";
+import { AnalysisOptionsForm } from "./analysis-options-form";
+import { ReferencePersonInput, type ReferencePerson } from "./reference-person-input";
+import { ReferenceCheckFeedback } from "./reference-check-feedback";
+import { useJobEvents } from "@/hooks/use-job-events";
+import { getRememberedContinuationToken, rememberContinuationToken } from "@/lib/analysis-session";
+
+// Error response of /api/analyze, with the server's error code when it sent one
+class AnalysisError extends Error {
+  constructor(message: string, readonly code?: string, readonly checks?: ReferenceCheck[]) {
+    super(message);
+    this.name = "AnalysisError";
+  }
+
+  get isSessionExpired(): boolean {
+    return !!this.code && (this.code.startsWith("TOKEN_") || this.code === "REFERENCE_EXPIRED");
+  }
+}
 
 interface FaceUploadProps {
   jobId: number;
@@ -27,7 +52,13 @@ export default function FaceUpload({
   googleApiKey, // No longer optional
 }: FaceUploadProps) {
   const { toast } = useToast();
-  const [file, setFile] = useState<File | null>(null);
+  // People searched for, each with reference photos compared with every image
+  const [people, setPeople] = useState<ReferencePerson[]>([{ name: "", files: [] }]);
+  const files = people.flatMap((person) => person.files);
+  // Every person needs a photo, and a name as soon as there are several
+  const hasReferences = people.every((person) =>
+    person.files.length > 0 && (people.length === 1 || person.name.trim() !== "")
+  );
   const { language } = useLanguage();
   const [awsCredentials, setAwsCredentials] = useState<{
     awsAccessKeyId: string;
@@ -35,12 +66,40 @@ export default function FaceUpload({
   } | null>(null);
   const [progress, setProgress] = useState<{ processed: number; total: number } | null>(null);
   const [isPolling, setIsPolling] = useState(false);
+  // Following the server's background analysis over the events stream
+  const [isStreaming, setIsStreaming] = useState(false);
+  const isWatching = isPolling || isStreaming;
+  const lastJobRef = useRef<ScanJob | null>(null);
+  const [isPaused, setIsPaused] = useState(false);
+  const [isChangingStatus, setIsChangingStatus] = useState(false);
+  // Batches scheduled before a cancel must not run
+  const cancelledRef = useRef(false);
+  const streamedResultsRef = useRef<Map<number, ScanResult>>(new Map());
   const pollTimerRef = useRef<number | null>(null);
   const [continuationToken, setContinuationToken] = useState<string | null>(null);
+  // A token restored after a reload: the analysis carries on once AWS credentials are known
+  const [continueAfterReload, setContinueAfterReload] = useState(false);
   const [isContinuing, setIsContinuing] = useState(false);
   const lastPollTimeRef = useRef<number>(0);
   const minPollIntervalMs = 5000; // Minimum 5 seconds between polls
   const [hasEnvAwsCredentials, setHasEnvAwsCredentials] = useState(false);
+  // First image without a result of an analysis interrupted by a reload; the
+  // next upload carries on from there instead of starting over
+  const [resumeFrom, setResumeFrom] = useState<number | null>(null);
+  // A finished job analyzed in collection mode, searched again for someone else
+  const [isSearchingAgain, setIsSearchingAgain] = useState(false);
+  const [analysisOptions, setAnalysisOptions] = useState<AnalysisOptions>(DEFAULT_ANALYSIS_OPTIONS);
+  // Problems the server found with the reference photos, and what was chosen about them
+  const [referenceChecks, setReferenceChecks] = useState<ReferenceCheck[] | null>(null);
+  const [referenceFaces, setReferenceFaces] = useState<(number | null)[]>([]);
+  const [acceptWarnings, setAcceptWarnings] = useState(false);
+
+  // Other photos need checking again
+  useEffect(() => {
+    setReferenceChecks(null);
+    setReferenceFaces([]);
+    setAcceptWarnings(false);
+  }, [people]);
 
   // Check if AWS credentials are set in env vars
   useEffect(() => {
@@ -59,6 +118,36 @@ export default function FaceUpload({
                 awsSecretAccessKey: "ENV_VAR_SET"
               });
             }
+
+            if (job.analysisOptions) setAnalysisOptions({ ...DEFAULT_ANALYSIS_OPTIONS, ...job.analysisOptions });
+            setIsSearchingAgain(job.status === "complete");
+            if (job.analysisOptions?.people && job.status !== "complete") {
+              setPeople(job.analysisOptions.people.map((person: { name: string }) => ({ name: person.name, files: [] })));
+            }
+
+            // Pick up an analysis that was running before the page was reloaded
+            const results: ScanResult[] = Array.isArray(job.results) ? job.results : [];
+            if (job.processing?.background) {
+              // The server carries on by itself: just follow it
+              lastJobRef.current = job;
+              setProgress({ processed: job.processing.processed, total: job.processing.total });
+              setIsPaused(job.status === "paused");
+              setIsStreaming(true);
+            } else if (job.processing && getRememberedContinuationToken(jobId)) {
+              // The token kept for the tab carries on with the next batch
+              lastJobRef.current = job;
+              setContinuationToken(getRememberedContinuationToken(jobId));
+              setProgress({ processed: job.processing.processed, total: job.processing.total });
+              setIsPaused(job.status === "paused");
+              setContinueAfterReload(true);
+            } else {
+              updateContinuationToken(null);
+              if ((job.processing || job.status === "failed") && results.length > 0) {
+                // Without a token the reference photo has to be uploaded again
+                setResumeFrom(getNextImageIndex(results));
+                setProgress({ processed: results.length, total: job.imageCount });
+              }
+            }
           }
         } catch (error) {
           console.error("Error checking job status:", error);
@@ -69,20 +158,20 @@ export default function FaceUpload({
     }
   }, [jobId, setScanJob]);
 
-  const onDrop = useCallback((acceptedFiles: File[]) => {
-    setFile(acceptedFiles[0]);
-  }, []);
+  // Every token is kept for the tab, so a reload can carry on with it
+  const updateContinuationToken = (token: string | null) => {
+    setContinuationToken(token);
+    rememberContinuationToken(jobId, token);
+  };
 
-  const { getRootProps, getInputProps, isDragActive } = useDropzone({
-    onDrop,
-    accept: { "image/*": [".jpeg", ".jpg", ".png"] },
-    maxSize: 5 * 1024 * 1024, // 5MB
-    multiple: false,
-  });
+  const updatePerson = useCallback((index: number, person: ReferencePerson) => {
+    setPeople((current) => current.map((existing, i) => i === index ? person : existing));
+  }, []);
 
   const analyzeMutation = useMutation({
     mutationFn: async () => {
-      if (!file && !continuationToken) throw new Error("No image has been selected.");
+      if (cancelledRef.current) return null;
+      if (!hasReferences && !continuationToken) throw new Error("No image has been selected.");
 
       // Ensure we're not hammering the server with continuation requests
       if (continuationToken) {
@@ -98,9 +187,22 @@ export default function FaceUpload({
       lastPollTimeRef.current = Date.now();
       const formData = new FormData();
       
-      // Only append the face image if it's the first request or we need to reestablish the reference
-      if (file) {
-        formData.append("face", file);
+      // The server keeps the reference image after the first request; batches only send the token
+      if (files.length > 0 && !continuationToken) {
+        files.forEach((file) => formData.append("face", file));
+        if (resumeFrom !== null) formData.append("resume", "true");
+        formData.append("similarityThreshold", String(analysisOptions.similarityThreshold));
+        formData.append("qualityFilter", analysisOptions.qualityFilter);
+        formData.append("matchMode", analysisOptions.matchMode);
+        // Photos are sent person after person; a lone unnamed person needs no list
+        if (people.length > 1 || people[0].name.trim()) {
+          formData.append("people", JSON.stringify(people.map((person) => ({
+            name: person.name.trim(),
+            referenceCount: person.files.length,
+          }))));
+        }
+        if (referenceFaces.length > 0) formData.append("referenceFaces", JSON.stringify(referenceFaces));
+        if (acceptWarnings) formData.append("acceptWarnings", "true");
       }
 
       // Always append AWS credentials if they're not set in env vars
@@ -140,19 +242,25 @@ export default function FaceUpload({
 
         if (!res.ok) {
           const errorDetails = await res.json();
-          throw new Error("Analysis failed: " + (errorDetails.error || "Unknown error"));
+          throw new AnalysisError(
+            "Analysis failed: " + (errorDetails.error || "Unknown error"),
+            errorDetails.code,
+            errorDetails.checks
+          );
         }
         
         const data = await res.json();
         setIsContinuing(false);
         
         // Store the continuation token if provided
-        if (data.continuationToken) {
-          setContinuationToken(data.continuationToken);
-        } else {
-          setContinuationToken(null);
-        }
+        updateContinuationToken(data.continuationToken || null);
         
+        // A paused or cancelled job processes no more batches until it is resumed
+        if (HALTED_JOB_STATUSES.includes(data.status)) {
+          setIsPaused(data.status === "paused");
+          return data;
+        }
+
         // Check if we need to start polling or continue processing
         if (data.processing && !data.processing.isComplete) {
           setProgress({
@@ -169,8 +277,8 @@ export default function FaceUpload({
               analyzeMutation.mutate();
             }, delayMs); 
           } else {
-            // Otherwise fall back to polling
-            setIsPolling(true);
+            // Otherwise the server is processing it: follow its progress
+            setIsStreaming(true);
           }
           return data;
         }
@@ -209,7 +317,13 @@ export default function FaceUpload({
       }
     },
     onSuccess: (data) => {
+      if (!data) return;
       setScanJob(data);
+      if (data.id) {
+        lastJobRef.current = data;
+        setResumeFrom(null);
+      }
+      if (HALTED_JOB_STATUSES.includes(data.status)) return;
       
       // If we need to process more batches with continuation token, don't mark as complete yet
       if (continuationToken && data.processing && !data.processing.isComplete) {
@@ -219,15 +333,36 @@ export default function FaceUpload({
       // Only mark as complete if processing is actually done
       if (!data.processing || data.processing.isComplete) {
         onAnalysisComplete();
-        setContinuationToken(null); // Clear token when done
-      } else if (!continuationToken) {
-        // If we don't have a continuation token but process isn't complete,
-        // start polling as fallback
-        setIsPolling(true);
+        updateContinuationToken(null); // Clear token when done
+      } else if (!continuationToken && !data.continuationToken) {
+        // The server processes the job in the background; follow its progress
+        setIsStreaming(true);
       }
     },
     onError: (error) => {
       setIsContinuing(false);
+
+      // The reference photos are shown with what needs fixing instead
+      if (error instanceof AnalysisError && error.checks) {
+        setReferenceChecks(error.checks);
+        return;
+      }
+
+      // A rejected token or expired reference can't be retried; the analysis has to start over
+      if (error instanceof AnalysisError && error.isSessionExpired) {
+        updateContinuationToken(null);
+        setProgress(null);
+        // The images analyzed so far are kept when the reference photo is uploaded again
+        const results = lastJobRef.current?.results;
+        if (results?.length) setResumeFrom(getNextImageIndex(results));
+        toast({
+          variant: "destructive",
+          title: getTranslation("error.generic", language),
+          description: getTranslation("error.sessionExpired", language),
+        });
+        return;
+      }
+
       try {
         // Don't toast on abort errors (handled in mutation function)
         if ((error as Error).name !== 'AbortError') {
@@ -252,6 +387,55 @@ export default function FaceUpload({
     },
   });
 
+  const handleJobEvent = (event: JobEvent) => {
+    const streamed = streamedResultsRef.current;
+
+    if (event.type === "snapshot") {
+      streamed.clear();
+      event.results.forEach((result) => streamed.set(result.imageId, result));
+      setProgress({ processed: event.processed, total: event.total });
+    } else if (event.type === "result") {
+      streamed.set(event.result.imageId, event.result);
+      setProgress((current) => ({
+        processed: Math.max(current?.processed || 0, streamed.size),
+        total: current?.total || imageCount,
+      }));
+    } else if (event.type === "progress") {
+      setProgress({ processed: event.processed, total: event.total });
+    }
+
+    if (lastJobRef.current) {
+      const results = Array.from(streamed.values()).sort((a, b) => a.imageId - b.imageId);
+      const status = event.type === "status" || event.type === "snapshot" ? event.status : lastJobRef.current.status;
+      lastJobRef.current = { ...lastJobRef.current, status, results };
+      setScanJob(lastJobRef.current);
+    }
+
+    const status = event.type === "status" || event.type === "snapshot" ? event.status : null;
+    if (status === "paused" || status === "processing") {
+      setIsPaused(status === "paused");
+    } else if (status === "complete") {
+      setIsStreaming(false);
+      onAnalysisComplete();
+    } else if (status === "failed") {
+      setIsStreaming(false);
+      toast({
+        variant: "destructive",
+        title: getTranslation("error.generic", language),
+        description: getTranslation("error.analysisFailed", language),
+      });
+    }
+  };
+
+  useJobEvents(jobId, isStreaming, {
+    onEvent: handleJobEvent,
+    // Fall back to polling the job when the stream isn't available
+    onError: () => {
+      setIsStreaming(false);
+      setIsPolling(true);
+    },
+  });
+
   // Poll for results when processing large image sets
   useEffect(() => {
     if (isPolling && !analyzeMutation.isPending && !isContinuing) {
@@ -289,7 +473,7 @@ export default function FaceUpload({
               
               // If the response contains a continuation token, switch to direct processing
               if (data.continuationToken) {
-                setContinuationToken(data.continuationToken);
+                updateContinuationToken(data.continuationToken);
                 setIsPolling(false);
                 // Trigger the next batch after a delay
                 setTimeout(() => {
@@ -303,7 +487,18 @@ export default function FaceUpload({
                   (data.processing && data.processing.isComplete)) {
                 setIsPolling(false);
                 onAnalysisComplete();
-              } else if (data.processing) {
+              } else if (data.status === 'cancelled') {
+                setIsPolling(false);
+              } else if (data.status === 'failed') {
+                // The background worker gave up on the job
+                setIsPolling(false);
+                toast({
+                  variant: "destructive",
+                  title: getTranslation("error.generic", language),
+                  description: getTranslation("error.analysisFailed", language),
+                });
+              } else if (data.processing || data.status === 'paused') {
+                setIsPaused(data.status === 'paused');
                 // Update progress
                 setProgress({
                   processed: data.processing.processed,
@@ -354,7 +549,7 @@ export default function FaceUpload({
         }
       };
     }
-  }, [isPolling, jobId, setScanJob, onAnalysisComplete, analyzeMutation.isPending, analyzeMutation.mutate, isContinuing]);
+  }, [isPolling, jobId, setScanJob, onAnalysisComplete, analyzeMutation.isPending, analyzeMutation.mutate, isContinuing, toast, language]);
 
   const handleAnalyze = () => {
     // Always require AWS credentials
@@ -371,12 +566,12 @@ export default function FaceUpload({
       return;
     }
 
-    if (!file && !continuationToken) {
+    if (!hasReferences && !continuationToken) {
       try {
         toast({
           variant: "destructive",
           title: "No image selected",
-          description: "Please upload a face image before analyzing.",
+          description: "Please upload a face image (and a name) for every person before analyzing.",
         });
       } catch (error) {
         // Silently catch any toast-related errors
@@ -391,6 +586,14 @@ export default function FaceUpload({
     analyzeMutation.mutate();
   };
 
+  useEffect(() => {
+    if (continueAfterReload && awsCredentials && continuationToken && !isPaused) {
+      setContinueAfterReload(false);
+      lastPollTimeRef.current = 0;
+      analyzeMutation.mutate();
+    }
+  }, [continueAfterReload, awsCredentials, continuationToken, isPaused, analyzeMutation.mutate]);
+
   const handleAwsSubmit = (credentials: {
     awsAccessKeyId: string;
     awsSecretAccessKey: string;
@@ -398,17 +601,75 @@ export default function FaceUpload({
     setAwsCredentials(credentials);
     // Automatically trigger analysis after credentials are submitted
     setTimeout(() => {
-      if (file) {
+      // A restored token carries on by itself once the credentials are set
+      if (hasReferences && !continueAfterReload) {
         analyzeMutation.mutate();
       }
     }, 100);
   };
   
+  const isRunning = analyzeMutation.isPending || isWatching || isContinuing;
+
   // Calculate progress percentage
   const progressPercentage = progress 
     ? Math.round((progress.processed / progress.total) * 100)
     : null;
 
+  const changeJobStatus = async (action: "pause" | "resume" | "cancel"): Promise<ScanJob | null> => {
+    setIsChangingStatus(true);
+    try {
+      const res = await fetch(`/api/jobs/${jobId}/${action}`, {
+        method: "POST",
+        credentials: "include"
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Unknown error");
+      return data;
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: getTranslation("error.generic", language),
+        description: (error as Error).message,
+      });
+      return null;
+    } finally {
+      setIsChangingStatus(false);
+    }
+  };
+
+  const handlePause = async () => {
+    if (await changeJobStatus("pause")) {
+      setIsPaused(true);
+    }
+  };
+
+  const handleResume = async () => {
+    if (!(await changeJobStatus("resume"))) return;
+    setIsPaused(false);
+
+    // Client-driven analyses carry on with the token they stopped at
+    if (continuationToken && !isWatching && !continueAfterReload) {
+      lastPollTimeRef.current = 0;
+      analyzeMutation.mutate();
+    }
+  };
+
+  const handleCancel = async () => {
+    const job = await changeJobStatus("cancel");
+    if (!job) return;
+
+    cancelledRef.current = true;
+    setIsPaused(false);
+    setIsStreaming(false);
+    setIsPolling(false);
+    updateContinuationToken(null);
+    toast({ title: getTranslation("analyze.cancelled", language) });
+
+    // Show whatever was found before the cancel
+    setScanJob(job);
+    onAnalysisComplete();
+  };
+
   // Add a function to manually retry the analysis if it fails
   const handleRetryAnalysis = () => {
     // Reset progress and start analysis
@@ -432,8 +693,14 @@ export default function FaceUpload({
         </p>
       </div>
 
+      {resumeFrom !== null && !isRunning && (
+        <p className="text-sm text-center font-medium">
+          {getTranslation("analyze.resumeHint", language, { index: resumeFrom, total: imageCount })}
+        </p>
+      )}
+
       {/* Face image section - conditionally allow changes */}
-      {isPolling || isContinuing || analyzeMutation.isPending ? (
+      {isRunning || isPaused ? (
         // Locked view when analysis is running
         <div className="p-4 border rounded bg-gray-50 dark:bg-gray-800">
           <div className="flex items-center gap-4">
@@ -442,11 +709,11 @@ export default function FaceUpload({
             </div>
             <div className="flex-1">
               <p className="font-medium">
-                {file ? file.name : "Face Image"}
+                {files.length > 0 ? files.map((file) => file.name).join(", ") : "Face Image"}
               </p>
-              {file && (
+              {files.length > 0 && (
                 <p className="text-sm text-muted-foreground">
-                  {Math.round(file.size / 1024)} KB
+                  {Math.round(files.reduce((total, file) => total + file.size, 0) / 1024)} KB
                 </p>
               )}
               <p className="text-xs text-muted-foreground mt-1">
@@ -456,37 +723,65 @@ export default function FaceUpload({
           </div>
         </div>
       ) : (
-        // Interactive dropzone when not analyzing
-        <div
-          {...getRootProps()}
-          className={cn(
-            "border-2 border-dashed rounded-lg p-6 flex flex-col items-center justify-center cursor-pointer transition-colors",
-            isDragActive
-              ? "border-primary bg-primary/10"
-              : "border-gray-300 hover:border-primary"
-          )}
-        >
-          <input {...getInputProps()} />
-          <Upload className="h-10 w-10 text-gray-400 mb-2" />
-          <p className="text-center text-muted-foreground">
-            {getTranslation("dropzoneText", language)}
-          </p>
-          {file && (
-            <div className="mt-2 text-sm font-medium text-center">
-              {file.name} ({Math.round(file.size / 1024)} KB)
-            </div>
+        // A dropzone per person when not analyzing
+        <div className="space-y-4">
+          {people.map((person, index) => (
+            <ReferencePersonInput
+              key={index}
+              person={person}
+              onChange={(updated) => updatePerson(index, updated)}
+              onRemove={people.length > 1
+                ? () => setPeople((current) => current.filter((_, i) => i !== index))
+                : undefined}
+              showName={people.length > 1 || person.name !== ""}
+            />
+          ))}
+          {/* A resumed analysis must be given the same people again */}
+          {resumeFrom === null && people.length < MAX_PEOPLE_PER_ANALYSIS && (
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => setPeople((current) => [...current, { name: "", files: [] }])}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              {getTranslation("people.add", language)}
+            </Button>
           )}
         </div>
       )}
 
-      {!awsCredentials ? (
+      {referenceChecks && !isRunning && (
+        <ReferenceCheckFeedback
+          checks={referenceChecks}
+          files={files}
+          referenceFaces={referenceFaces}
+          onSelectFace={(referenceIndex, faceIndex) => setReferenceFaces((current) => {
+            const updated = Array.from({ length: files.length }, (_, index) => current[index] ?? null);
+            updated[referenceIndex] = faceIndex;
+            return updated;
+          })}
+          acceptWarnings={acceptWarnings}
+          onAcceptWarningsChange={setAcceptWarnings}
+        />
+      )}
+
+      {/* A resumed analysis keeps the settings it was started with */}
+      {!isRunning && !isPaused && resumeFrom === null && (
+        <AnalysisOptionsForm
+          value={analysisOptions}
+          onChange={setAnalysisOptions}
+          canChangeMatchMode={!isSearchingAgain}
+        />
+      )}
+
+      {!awsCredentials && !isWatching && !isPaused ? (
         /* AWS Credentials form */
         <div className="space-y-6">
           {hasEnvAwsCredentials ? (
             <Button 
               onClick={handleAnalyze} 
               className="w-full"
-              disabled={!file}
+              disabled={!hasReferences}
             >
               {analyzeMutation.isPending
                 ? getTranslation("analyze.loading", language)
@@ -508,21 +803,26 @@ export default function FaceUpload({
                 <span className="text-sm font-medium">{progressPercentage}%</span>
               </div>
               <Progress value={progressPercentage} />
+              {isWatching && (
+                <p className="text-xs text-muted-foreground">
+                  {getTranslation("analyze.background", language).replace("{id}", jobId.toString())}
+                </p>
+              )}
             </div>
           )}
 
-          {!analyzeMutation.isPending && !isPolling && !isContinuing && (
+          {!isRunning && !isPaused && (
             <Button
               onClick={handleAnalyze}
               className="w-full"
-              disabled={analyzeMutation.isPending || isPolling || isContinuing || !file}
+              disabled={analyzeMutation.isPending || isWatching || isContinuing || (!hasReferences && !continuationToken)}
             >
               {getTranslation("analyze.button", language)}
             </Button>
           )}
 
           {/* Display a retry button if analysis fails */}
-          {analyzeMutation.isError && !isPolling && !isContinuing && (
+          {analyzeMutation.isError && !referenceChecks && !isWatching && !isContinuing && (
             <Button
               onClick={handleRetryAnalysis}
               className="w-full"
@@ -533,7 +833,7 @@ export default function FaceUpload({
           )}
 
           {/* Show as loading if we're analyzing, polling or continuing */}
-          {(analyzeMutation.isPending || isPolling || isContinuing) && (
+          {isRunning && !isPaused && (
             <Button disabled className="w-full">
               <span className="mr-2">
                 {getTranslation("analyze.loading", language)}
@@ -542,6 +842,36 @@ export default function FaceUpload({
               <div className="animate-spin h-4 w-4 border-2 border-current border-t-transparent rounded-full" />
             </Button>
           )}
+
+          {isPaused && (
+            <p className="text-center text-sm font-medium">
+              {getTranslation("analyze.paused", language)}
+            </p>
+          )}
+
+          {/* Pause, resume and cancel once the server has started the job */}
+          {(isRunning || isPaused) && progress !== null && (
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                className="flex-1"
+                disabled={isChangingStatus}
+                onClick={isPaused ? handleResume : handlePause}
+              >
+                {isPaused ? <Play className="h-4 w-4 mr-2" /> : <Pause className="h-4 w-4 mr-2" />}
+                {getTranslation(isPaused ? "analyze.resume" : "analyze.pause", language)}
+              </Button>
+              <Button
+                variant="outline"
+                className="flex-1"
+                disabled={isChangingStatus}
+                onClick={handleCancel}
+              >
+                <X className="h-4 w-4 mr-2" />
+                {getTranslation("analyze.cancel", language)}
+              </Button>
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,23 @@
+import { Badge, type BadgeProps } from "@/components/ui/badge";
+import { useLanguage } from "@/lib/language-context";
+import { getTranslation } from "@shared/translations";
+import { type JobStatus } from "@shared/schema";
+
+const statusVariants: Record<JobStatus, BadgeProps["variant"]> = {
+  pending: "outline",
+  processing: "default",
+  paused: "secondary",
+  complete: "secondary",
+  failed: "destructive",
+  cancelled: "outline",
+};
+
+export function JobStatusBadge({ status }: { status: JobStatus }) {
+  const { language } = useLanguage();
+
+  return (
+    <Badge variant={statusVariants[status]}>
+      {getTranslation(`status.${status}`, language)}
+    </Badge>
+  );
+}
@@ -0,0 +1,68 @@
+import { AlertCircle } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useLanguage } from "@/lib/language-context";
+import { getTranslation } from "@shared/translations";
+import { BLOCKING_REFERENCE_ISSUES, type ReferenceCheck } from "@shared/schema";
+import FacePicker from "./face-picker";
+
+interface ReferenceCheckFeedbackProps {
+  checks: ReferenceCheck[];
+  // Reference photos in upload order, to name and show them
+  files: File[];
+  referenceFaces: (number | null)[];
+  onSelectFace: (referenceIndex: number, faceIndex: number) => void;
+  acceptWarnings: boolean;
+  onAcceptWarningsChange: (accept: boolean) => void;
+}
+
+// What the server found wrong with the reference photos, and the choices that let the analysis start
+export function ReferenceCheckFeedback({
+  checks,
+  files,
+  referenceFaces,
+  onSelectFace,
+  acceptWarnings,
+  onAcceptWarningsChange,
+}: ReferenceCheckFeedbackProps) {
+  const { language } = useLanguage();
+  const hasWarnings = checks.some((check) =>
+    check.issues.some((issue) => !BLOCKING_REFERENCE_ISSUES.includes(issue))
+  );
+
+  return (
+    <div className="space-y-3">
+      {checks.filter((check) => check.issues.length > 0 || check.faces.length > 1).map((check) => (
+        <Alert key={check.referenceIndex} variant={check.issues.length > 0 ? "destructive" : "default"}>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription className="space-y-2">
+            <p className="font-medium">
+              {files[check.referenceIndex]?.name}
+            </p>
+            {check.issues.map((issue) => (
+              <p key={issue}>{getTranslation(`referenceCheck.${issue}`, language)}</p>
+            ))}
+            {check.faces.length > 1 && files[check.referenceIndex] && (
+              <FacePicker
+                file={files[check.referenceIndex]}
+                faces={check.faces}
+                selected={referenceFaces[check.referenceIndex] ?? check.faceIndex}
+                onSelect={(faceIndex) => onSelectFace(check.referenceIndex, faceIndex)}
+              />
+            )}
+          </AlertDescription>
+        </Alert>
+      ))}
+
+      {hasWarnings && (
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={acceptWarnings}
+            onCheckedChange={(checked) => onAcceptWarningsChange(checked === true)}
+          />
+          {getTranslation("referenceCheck.acceptWarnings", language)}
+        </label>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { useCallback } from "react";
+import { useDropzone } from "react-dropzone";
+import { Upload, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useLanguage } from "@/lib/language-context";
+import { cn } from "@/lib/utils";
+import { getTranslation } from "@shared/translations";
+import { MAX_REFERENCE_PHOTOS } from "@shared/schema";
+
+// A person searched for, with the reference photos picked for them
+export interface ReferencePerson {
+  name: string;
+  files: File[];
+}
+
+interface ReferencePersonInputProps {
+  person: ReferencePerson;
+  onChange: (person: ReferencePerson) => void;
+  // Only given when the person can be taken off the list
+  onRemove?: () => void;
+  // A lone person doesn't need a name
+  showName: boolean;
+}
+
+export function ReferencePersonInput({ person, onChange, onRemove, showName }: ReferencePersonInputProps) {
+  const { language } = useLanguage();
+
+  const onDrop = useCallback((acceptedFiles: File[]) => {
+    onChange({ ...person, files: [...person.files, ...acceptedFiles].slice(0, MAX_REFERENCE_PHOTOS) });
+  }, [person, onChange]);
+
+  const removeFile = (index: number) => {
+    onChange({ ...person, files: person.files.filter((_, i) => i !== index) });
+  };
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: { "image/*": [".jpeg", ".jpg", ".png"] },
+    maxSize: 5 * 1024 * 1024, // 5MB
+    multiple: true,
+    disabled: person.files.length >= MAX_REFERENCE_PHOTOS,
+  });
+
+  return (
+    <div className="space-y-2">
+      {showName && (
+        <div className="flex items-center gap-2">
+          <Input
+            value={person.name}
+            maxLength={100}
+            placeholder={getTranslation("people.namePlaceholder", language)}
+            aria-label={getTranslation("people.name", language)}
+            onChange={(event) => onChange({ ...person, name: event.target.value })}
+          />
+          {onRemove && (
+            <Button
+              variant="ghost"
+              size="icon"
+              aria-label={getTranslation("people.remove", language)}
+              onClick={onRemove}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      )}
+
+      <div
+        {...getRootProps()}
+        className={cn(
+          "border-2 border-dashed rounded-lg p-6 flex flex-col items-center justify-center cursor-pointer transition-colors",
+          isDragActive
+            ? "border-primary bg-primary/10"
+            : "border-gray-300 hover:border-primary"
+        )}
+      >
+        <input {...getInputProps()} />
+        <Upload className="h-10 w-10 text-gray-400 mb-2" />
+        <p className="text-center text-muted-foreground">
+          {getTranslation("dropzoneText", language)}
+        </p>
+        <p className="text-center text-xs text-muted-foreground mt-1">
+          {getTranslation("referencePhotos.hint", language, { max: MAX_REFERENCE_PHOTOS })}
+        </p>
+      </div>
+
+      {person.files.length > 0 && (
+        <ul className="space-y-1">
+          {person.files.map((file, index) => (
+            <li key={`${file.name}-${index}`} className="flex items-center justify-between text-sm">
+              <span className="font-medium truncate">
+                {file.name} ({Math.round(file.size / 1024)} KB)
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                aria-label={getTranslation("referencePhotos.remove", language)}
+                onClick={() => removeFile(index)}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
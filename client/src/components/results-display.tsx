@@ -3,27 +3,29 @@ import { Check, X } from "lucide-react";
 import { Download } from "lucide-react";
 import { useLanguage } from "@/lib/language-context";
 import { getTranslation } from "@shared/translations";
-import { useMemo } from "react";
-
-interface Result {
-  imageId: number;
-  similarity: number;
-  matched: boolean;
-  url?: string;
-  driveUrl?: string;
-  error?: string;
-}
+import { useMemo, useState } from "react";
+import {
+  applySimilarityThreshold,
+  DEFAULT_ANALYSIS_OPTIONS,
+  type AnalysisPerson,
+  type ScanResult,
+} from "@shared/schema";
+import FaceThumbnail from "./face-thumbnail";
 
 interface ResultsDisplayProps {
-  results: Result[] | null;
+  results: ScanResult[] | null;
+  // Threshold the job was analyzed with; matches can be re-thresholded from there
+  similarityThreshold?: number;
+  // People the job searched for; their matches are listed separately
+  people?: AnalysisPerson[];
 }
 
 // Deduplicate results, keeping only one entry per imageId (with highest similarity)
-function getUniqueResults(results: Result[]): Result[] {
+function getUniqueResults(results: ScanResult[]): ScanResult[] {
   if (!results || !Array.isArray(results)) return [];
   
   // Use a Map to track unique results by imageId
-  const uniqueResults = new Map<number, Result>();
+  const uniqueResults = new Map<number, ScanResult>();
   
   // Keep only one result per imageId, favoring higher similarity scores
   for (const result of results) {
@@ -41,29 +43,94 @@ function getUniqueResults(results: Result[]): Result[] {
   return Array.from(uniqueResults.values());
 }
 
-function downloadCSV(results: Result[]) {
+// Group results by the source they came from, in source order
+function groupBySource(results: ScanResult[]): { sourceIndex?: number; sourceUrl?: string; results: ScanResult[] }[] {
+  const groups = new Map<number | undefined, { sourceIndex?: number; sourceUrl?: string; results: ScanResult[] }>();
+
+  for (const result of results) {
+    const group = groups.get(result.sourceIndex);
+    if (group) {
+      group.results.push(result);
+    } else {
+      groups.set(result.sourceIndex, {
+        sourceIndex: result.sourceIndex,
+        sourceUrl: result.sourceUrl,
+        results: [result]
+      });
+    }
+  }
+
+  return Array.from(groups.values()).sort((a, b) => (a.sourceIndex ?? 0) - (b.sourceIndex ?? 0));
+}
+
+// A result as seen for one person: only the faces that are theirs, with the
+// reference photo numbered among that person's own photos
+function forPerson(result: ScanResult, people: AnalysisPerson[], personIndex: number): ScanResult {
+  const firstReference = people.slice(0, personIndex).reduce((count, person) => count + person.referenceCount, 0);
+  const matches = (result.matches ?? []).filter((match) => match.personIndex === personIndex);
+  const best = matches[0];
+  return {
+    ...result,
+    matched: matches.length > 0,
+    similarity: best?.similarity ?? 0,
+    referenceIndex: best?.referenceIndex !== undefined ? best.referenceIndex - firstReference : undefined,
+    matches,
+  };
+}
+
+// Name of a person as it can appear in a file name
+function toFilename(name: string): string {
+  return name.replace(/[\\/:*?"<>|\s]+/g, "_");
+}
+
+// Every CSV field is quoted, with its quotes doubled, so URLs and folder names
+// can hold separators, quotes or line breaks
+function toCsvRow(fields: string[]): string {
+  return fields.map((field) => `"${field.replace(/"/g, '""')}"`).join(",");
+}
+
+function downloadCSV(results: ScanResult[], filename = 'matched_faces.csv') {
   const matchedResults = results.filter(r => r.matched);
-  const csvContent = "Photo URL,Google Drive URL,Similarity %\n" + 
-    matchedResults.map(r => `${r.url || ''},${r.driveUrl || ''},${r.similarity.toFixed(1)}`).join("\n");
+  const csvContent = [
+    toCsvRow(["Photo URL", "Google Drive URL", "Source", "Folder", "Similarity %", "Reference Photo"]),
+    ...matchedResults.map(r => toCsvRow([
+      r.url || '',
+      r.driveUrl || '',
+      r.sourceUrl || '',
+      r.folderPath || '',
+      r.similarity.toFixed(1),
+      r.referenceIndex !== undefined ? String(r.referenceIndex + 1) : '',
+    ])),
+  ].join("\n");
 
   const blob = new Blob([csvContent], { type: 'text/csv' });
   const url = window.URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url;
-  a.download = 'matched_faces.csv';
+  a.download = filename;
   document.body.appendChild(a);
   a.click();
   document.body.removeChild(a);
   window.URL.revokeObjectURL(url);
 }
 
-export default function ResultsDisplay({ results }: ResultsDisplayProps) {
+export default function ResultsDisplay({
+  results,
+  similarityThreshold = DEFAULT_ANALYSIS_OPTIONS.similarityThreshold,
+  people,
+}: ResultsDisplayProps) {
   const { language } = useLanguage();
+  const [threshold, setThreshold] = useState(similarityThreshold);
   
-  // Use memoized deduplicated results
+  // Use memoized deduplicated results, re-thresholded from their stored similarities
   const uniqueResults = useMemo(() => {
-    return results ? getUniqueResults(results) : null;
-  }, [results]);
+    return results
+      ? getUniqueResults(results).map((result) => applySimilarityThreshold(result, threshold))
+      : null;
+  }, [results, threshold]);
+  const canRethreshold = !!results?.some((result) => result.faces);
+  // Only worth showing which reference photo matched when there were several
+  const hasSeveralReferences = !!results?.some((result) => (result.referenceIndex ?? 0) > 0);
   
   if (!uniqueResults) {
     return (
@@ -77,6 +144,72 @@ export default function ResultsDisplay({ results }: ResultsDisplayProps) {
 
   const matchedCount = uniqueResults.filter(r => r.matched).length;
 
+  // Matched results, grouped by source when the job had several
+  const renderMatches = (matched: ScanResult[], showReferencePhoto: boolean) => {
+    const matchGroups = groupBySource(matched);
+    return matchGroups.map((group) => (
+      <div key={group.sourceIndex ?? "all"} className="grid gap-4">
+        {matchGroups.length > 1 && group.sourceUrl && (
+          <h4 className="text-sm font-semibold text-muted-foreground break-all">
+            {getTranslation("results.source", language, {
+              index: (group.sourceIndex ?? 0) + 1,
+              url: group.sourceUrl
+            })}
+          </h4>
+        )}
+        {group.results.map((result) => (
+          <Card key={result.imageId}>
+            <CardContent className="flex items-center gap-4 p-4">
+              {result.url && (
+                <a href={result.url} target="_blank" rel="noopener noreferrer">
+                  <FaceThumbnail
+                    src={result.url}
+                    alt={getTranslation("results.image", language, { id: result.imageId })}
+                    matches={result.matches}
+                  />
+                </a>
+              )}
+              <div className="flex-1 min-w-0">
+                <a 
+                  href={result.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium text-primary hover:underline"
+                >
+                  {getTranslation("results.image", language, { id: result.imageId })}
+                </a>
+                {result.folderPath && (
+                  <p className="text-xs text-muted-foreground">
+                    {result.folderPath}
+                  </p>
+                )}
+                <p className="text-sm text-muted-foreground">
+                  {getTranslation("results.similarityPercentage", language, { value: result.similarity.toFixed(1) })}
+                </p>
+                {showReferencePhoto && result.referenceIndex !== undefined && (
+                  <p className="text-xs text-muted-foreground">
+                    {getTranslation("results.referencePhoto", language, { index: result.referenceIndex + 1 })}
+                  </p>
+                )}
+                {result.matches && result.matches.length > 1 && (
+                  <p className="text-xs text-muted-foreground">
+                    {getTranslation("results.matchedFaces", language, { count: result.matches.length })}
+                  </p>
+                )}
+                {!!result.unmatchedFaceCount && (
+                  <p className="text-xs text-muted-foreground">
+                    {getTranslation("results.otherFaces", language, { count: result.unmatchedFaceCount })}
+                  </p>
+                )}
+              </div>
+              <Check className="h-6 w-6 text-green-500" />
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    ));
+  };
+
   return (
     <div className="max-w-2xl mx-auto">
       <div className="text-center mb-8">
@@ -91,6 +224,23 @@ export default function ResultsDisplay({ results }: ResultsDisplayProps) {
         </p>
       </div>
 
+      {canRethreshold && (
+        <div className="mb-6 space-y-2">
+          <label htmlFor="threshold" className="text-sm font-medium">
+            {getTranslation("results.threshold", language, { value: threshold })}
+          </label>
+          <input
+            id="threshold"
+            type="range"
+            min={0}
+            max={100}
+            value={threshold}
+            onChange={(event) => setThreshold(Number(event.target.value))}
+            className="w-full accent-primary"
+          />
+        </div>
+      )}
+
       <div className="grid gap-4">
         <div className="flex justify-between items-center">
           <h3 className="text-xl font-semibold mb-2">
@@ -104,26 +254,37 @@ export default function ResultsDisplay({ results }: ResultsDisplayProps) {
             {getTranslation("results.downloadCSV", language)}
           </button>
         </div>
-        {uniqueResults.filter(r => r.matched).map((result) => (
-          <Card key={result.imageId}>
-            <CardContent className="flex items-center justify-between p-4">
-              <div>
-                <a 
-                  href={result.url}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="font-medium text-primary hover:underline"
-                >
-                  {getTranslation("results.image", language, { id: result.imageId })}
-                </a>
-                <p className="text-sm text-muted-foreground">
-                  {getTranslation("results.similarityPercentage", language, { value: result.similarity.toFixed(1) })}
-                </p>
+        {people?.length ? (
+          people.map((person, personIndex) => {
+            const personResults = uniqueResults
+              .map((result) => forPerson(result, people, personIndex))
+              .filter((result) => result.matched);
+            return (
+              <div key={personIndex} className="grid gap-4">
+                <div className="flex justify-between items-center">
+                  <h4 className="text-lg font-semibold">
+                    {getTranslation("results.personMatches", language, {
+                      name: person.name,
+                      count: personResults.length
+                    })}
+                  </h4>
+                  {personResults.length > 0 && (
+                    <button
+                      onClick={() => downloadCSV(personResults, `matched_faces_${toFilename(person.name)}.csv`)}
+                      className="bg-gray-200 hover:bg-gray-300 text-gray-700 font-bold py-1 px-3 rounded inline-flex items-center text-sm"
+                    >
+                      <Download className="h-4 w-4 mr-2"/>
+                      {getTranslation("results.downloadCSV", language)}
+                    </button>
+                  )}
+                </div>
+                {renderMatches(personResults, person.referenceCount > 1)}
               </div>
-              <Check className="h-6 w-6 text-green-500" />
-            </CardContent>
-          </Card>
-        ))}
+            );
+          })
+        ) : (
+          renderMatches(uniqueResults.filter(r => r.matched), hasSeveralReferences)
+        )}
       </div>
     </div>
   );
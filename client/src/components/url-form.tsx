@@ -1,13 +1,19 @@
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { driveUrlSchema, type DriveUrlInput } from "@shared/schema";
+import {
+  driveUrlSchema,
+  isSupportedSourceUrl,
+  MAX_SOURCES_PER_JOB,
+  type DriveUrlInput,
+} from "@shared/schema";
 import { DOCUMENTATION_LINKS } from "@shared/config";
 import { useMutation } from "@tanstack/react-query";
 import { Form } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
-import { AlertCircle, Eye, EyeOff, ExternalLink } from "lucide-react";
+import { AlertCircle, Eye, EyeOff, ExternalLink, FileArchive, Plus, X } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useState, useEffect } from "react";
 import { useLanguage } from "@/lib/language-context";
@@ -27,6 +33,9 @@ export default function UrlForm({ onScanComplete }: UrlFormProps) {
   const [showApiKey, setShowApiKey] = useState(false);
   const { language } = useLanguage();
   const [hasEnvGoogleApiKey, setHasEnvGoogleApiKey] = useState(false);
+  const [zipFile, setZipFile] = useState<File | null>(null);
+  const [recursive, setRecursive] = useState(false);
+  const [extraUrls, setExtraUrls] = useState<string[]>([]);
 
   // Check for environment variables on mount
   useEffect(() => {
@@ -36,6 +45,9 @@ export default function UrlForm({ onScanComplete }: UrlFormProps) {
         if (data.googleApiKey) {
           console.log("Google API Key found in environment variables, hiding input field");
           setHasEnvGoogleApiKey(true);
+        } else if (data.fixtureMode) {
+          console.log("Fixture mode enabled, no Google API Key needed");
+          setHasEnvGoogleApiKey(true);
         }
       })
       .catch(err => {
@@ -59,7 +71,13 @@ export default function UrlForm({ onScanComplete }: UrlFormProps) {
 
   const scanMutation = useMutation({
     mutationFn: async (data: FormData) => {
-      console.log("Submitting scan with URL:", data.url);
+      // The main URL plus any additional folders, scanned as one job
+      const urls = [data.url, ...extraUrls.map((url) => url.trim()).filter(Boolean)];
+      if (urls.slice(1).some((url) => !isSupportedSourceUrl(url))) {
+        throw new Error(getTranslation("sources.invalid", language));
+      }
+
+      console.log("Submitting scan with URLs:", urls);
       
       const res = await fetch("/api/scan", {
         method: "POST",
@@ -67,35 +85,48 @@ export default function UrlForm({ onScanComplete }: UrlFormProps) {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          url: data.url,
-          googleApiKey: data.googleApiKey // Include it if provided by user
+          urls,
+          googleApiKey: data.googleApiKey, // Include it if provided by user
+          recursive: recursive || undefined
         }),
       });
       
       if (!res.ok) {
-        const errorText = await res.text();
-        console.error("Scan API error:", errorText);
-        throw new Error(errorText);
+        throw await readScanError(res);
       }
       return res.json();
     },
     onSuccess: (data, variables) => {
-      if (data.imageCount === 0) {
-        toast({
-          variant: "default",
-          title: getTranslation("noImages.title", language),
-          description: getTranslation("noImages.description", language),
-        });
-        return;
-      }
-      
-      // Check if environment variables are set in the backend
-      if (data.hasEnvGoogleApiKey) {
-        setHasEnvGoogleApiKey(true);
+      handleScanSuccess(data, variables.googleApiKey);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: getTranslation("error.generic", language),
+        description: error.message,
+      });
+    },
+  });
+
+  // ZIP archives are uploaded as multipart form data instead of a URL
+  const zipScanMutation = useMutation({
+    mutationFn: async (archive: File) => {
+      const formData = new FormData();
+      formData.append("archive", archive);
+
+      const res = await fetch("/api/scan", {
+        method: "POST",
+        body: formData,
+      });
+
+      if (!res.ok) {
+        throw await readScanError(res);
       }
-      
-      // Pass the API key (either from form or env var)
-      onScanComplete(data, variables.googleApiKey || "ENV_VAR_SET");
+      return res.json();
+    },
+    onSuccess: (data) => {
+      setZipFile(null);
+      handleScanSuccess(data);
     },
     onError: (error: Error) => {
       toast({
@@ -106,6 +137,41 @@ export default function UrlForm({ onScanComplete }: UrlFormProps) {
     },
   });
 
+  // Turn an /api/scan error response into a readable, translated error
+  const readScanError = async (res: Response): Promise<Error> => {
+    const errorText = await res.text();
+    console.error("Scan API error:", errorText);
+
+    try {
+      const body = JSON.parse(errorText);
+      if (body.code === "FOLDER_NOT_PUBLIC") {
+        return new Error(getTranslation("error.folderNotPublic", language));
+      }
+      return new Error(body.error || errorText);
+    } catch (parseError) {
+      return new Error(errorText);
+    }
+  };
+
+  const handleScanSuccess = (data: any, googleApiKey?: string) => {
+    if (data.imageCount === 0) {
+      toast({
+        variant: "default",
+        title: getTranslation("noImages.title", language),
+        description: getTranslation("noImages.description", language),
+      });
+      return;
+    }
+
+    // Check if environment variables are set in the backend
+    if (data.hasEnvGoogleApiKey) {
+      setHasEnvGoogleApiKey(true);
+    }
+
+    // Pass the API key (either from form or env var)
+    onScanComplete(data, googleApiKey || "ENV_VAR_SET");
+  };
+
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit((data) => scanMutation.mutate(data))} className="space-y-4 max-w-md mx-auto">
@@ -129,6 +195,48 @@ export default function UrlForm({ onScanComplete }: UrlFormProps) {
           </Alert>
         )}
 
+        {extraUrls.map((extraUrl, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              placeholder={getTranslation("url.placeholder", language)}
+              value={extraUrl}
+              onChange={(e) => setExtraUrls(extraUrls.map((url, i) => (i === index ? e.target.value : url)))}
+              className="w-full"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => setExtraUrls(extraUrls.filter((_, i) => i !== index))}
+              aria-label={getTranslation("sources.remove", language)}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+
+        {extraUrls.length < MAX_SOURCES_PER_JOB - 1 && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setExtraUrls([...extraUrls, ""])}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            {getTranslation("sources.add", language)}
+          </Button>
+        )}
+
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="recursive"
+            checked={recursive}
+            onCheckedChange={(checked) => setRecursive(checked === true)}
+          />
+          <label htmlFor="recursive" className="text-sm">
+            {getTranslation("recursive.label", language)}
+          </label>
+        </div>
+
         {!hasEnvGoogleApiKey && (
           <div className="relative">
             <div className="flex items-center justify-between mb-2">
@@ -172,12 +280,43 @@ export default function UrlForm({ onScanComplete }: UrlFormProps) {
         <Button
           type="submit"
           className="w-full"
-          disabled={scanMutation.isPending}
+          disabled={scanMutation.isPending || zipScanMutation.isPending}
         >
           {scanMutation.isPending
             ? getTranslation("scan.loading", language)
             : getTranslation("scan.button", language)}
         </Button>
+
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <div className="flex-1 border-t" />
+          {getTranslation("zip.divider", language)}
+          <div className="flex-1 border-t" />
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="zip-archive" className="text-sm font-medium flex items-center gap-2">
+            <FileArchive className="h-4 w-4" />
+            {getTranslation("zip.label", language)}
+          </label>
+          <Input
+            id="zip-archive"
+            type="file"
+            accept=".zip,application/zip"
+            onChange={(e) => setZipFile(e.target.files?.[0] || null)}
+            className="w-full"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full"
+            disabled={!zipFile || zipScanMutation.isPending || scanMutation.isPending}
+            onClick={() => zipFile && zipScanMutation.mutate(zipFile)}
+          >
+            {zipScanMutation.isPending
+              ? getTranslation("zip.loading", language)
+              : getTranslation("zip.button", language)}
+          </Button>
+        </div>
       </form>
     </Form>
   );
@@ -0,0 +1,46 @@
+import { useEffect, useRef } from "react";
+import { TERMINAL_JOB_STATUSES, type JobEvent } from "@shared/schema";
+
+interface JobEventHandlers {
+  onEvent: (event: JobEvent) => void;
+  // The stream broke before the job finished; callers fall back to polling
+  onError: () => void;
+}
+
+/**
+ * Subscribe to a job's live progress over Server-Sent Events while `enabled`.
+ * The connection closes once the job reaches a final status.
+ */
+export function useJobEvents(jobId: number, enabled: boolean, handlers: JobEventHandlers) {
+  // Keep the latest handlers without reconnecting on every render
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled || typeof EventSource === "undefined") {
+      if (enabled) handlersRef.current.onError();
+      return;
+    }
+
+    const source = new EventSource(`/api/jobs/${jobId}/events`);
+    let finished = false;
+
+    source.onmessage = (message) => {
+      const event = JSON.parse(message.data) as JobEvent;
+      if (event.type === "status" && TERMINAL_JOB_STATUSES.includes(event.status)) {
+        finished = true;
+        source.close();
+      }
+      handlersRef.current.onEvent(event);
+    };
+
+    // EventSource retries on its own, but a proxy that buffers or drops the
+    // stream would leave the progress bar frozen, so hand over to polling
+    source.onerror = () => {
+      source.close();
+      if (!finished) handlersRef.current.onError();
+    };
+
+    return () => source.close();
+  }, [jobId, enabled]);
+}
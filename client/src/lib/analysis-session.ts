@@ -0,0 +1,47 @@
+// The Google API key entered in the scan form is kept for the browser tab so
+// an analysis can carry on after a reload. AWS secrets are never stored and
+// have to be entered again.
+const GOOGLE_API_KEY_STORAGE_KEY = "fify.googleApiKey";
+
+export function rememberGoogleApiKey(apiKey: string): void {
+  try {
+    sessionStorage.setItem(GOOGLE_API_KEY_STORAGE_KEY, apiKey);
+  } catch (error) {
+    // Storage can be unavailable (e.g. with cookies disabled); only reloads are affected
+  }
+}
+
+export function getRememberedGoogleApiKey(): string {
+  try {
+    return sessionStorage.getItem(GOOGLE_API_KEY_STORAGE_KEY) || "";
+  } catch (error) {
+    return "";
+  }
+}
+
+// The continuation token of a client-driven analysis is kept for the tab too,
+// so a reload carries on with the next batch instead of asking for the
+// reference photos again
+function getContinuationStorageKey(jobId: number): string {
+  return `fify.continuation.${jobId}`;
+}
+
+export function rememberContinuationToken(jobId: number, token: string | null): void {
+  try {
+    if (token) {
+      sessionStorage.setItem(getContinuationStorageKey(jobId), token);
+    } else {
+      sessionStorage.removeItem(getContinuationStorageKey(jobId));
+    }
+  } catch (error) {
+    // Without storage a reload asks for the reference photos again
+  }
+}
+
+export function getRememberedContinuationToken(jobId: number): string | null {
+  try {
+    return sessionStorage.getItem(getContinuationStorageKey(jobId));
+  } catch (error) {
+    return null;
+  }
+}
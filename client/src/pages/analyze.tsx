@@ -0,0 +1,63 @@
+import { useCallback, useState } from "react";
+import { Redirect, useLocation, useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { type ScanJob } from "@shared/schema";
+import { getTranslation } from "@shared/translations";
+import { useLanguage } from "@/lib/language-context";
+import { getRememberedGoogleApiKey } from "@/lib/analysis-session";
+import FaceUpload from "@/components/face-upload";
+import HeroSection from "@/components/hero-section";
+
+export default function AnalyzePage() {
+  const { language } = useLanguage();
+  const [, setLocation] = useLocation();
+  const { id } = useParams<{ id: string }>();
+  const jobId = parseInt(id);
+
+  // Reloaded from the server on every visit, so a refresh resumes where the job is now
+  const { data: job, isLoading, isError } = useQuery<ScanJob>({
+    queryKey: [`/api/jobs/${jobId}`],
+    staleTime: 0,
+    refetchOnMount: "always",
+  });
+
+  // Updates pushed by the analysis; only full jobs carry a new image count
+  const [currentJob, setCurrentJob] = useState<ScanJob | null>(null);
+  const handleJobUpdate = useCallback((updated: ScanJob | null) => {
+    if (updated?.id) setCurrentJob(updated);
+  }, []);
+
+  const handleAnalysisComplete = useCallback(() => {
+    setLocation(`/jobs/${jobId}`);
+  }, [jobId, setLocation]);
+
+  // A finished job has nothing left to analyze, unless its faces are kept to be searched again
+  const canSearchAgain = job?.status === "complete" && job.analysisOptions?.matchMode === "collection";
+  if (job && (job.status === "complete" || job.status === "cancelled") && !canSearchAgain) {
+    return <Redirect to={`/jobs/${jobId}`} />;
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <HeroSection />
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8 flex-grow">
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : isError || !job ? (
+          <p className="text-center text-muted-foreground">{getTranslation("jobs.notFound", language)}</p>
+        ) : (
+          <FaceUpload
+            jobId={jobId}
+            imageCount={(currentJob ?? job).imageCount}
+            onAnalysisComplete={handleAnalysisComplete}
+            setScanJob={handleJobUpdate}
+            googleApiKey={getRememberedGoogleApiKey()}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
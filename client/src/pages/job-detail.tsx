@@ -0,0 +1,107 @@
+import { Link, useLocation, useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, Loader2, Play, Search } from "lucide-react";
+import { type ScanJob } from "@shared/schema";
+import { getTranslation } from "@shared/translations";
+import { useLanguage } from "@/lib/language-context";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { JobStatusBadge } from "@/components/job-status-badge";
+import { DeleteJobButton } from "@/components/delete-job-button";
+import ResultsDisplay from "@/components/results-display";
+
+// How often to reload a job that is still being analyzed
+const REFRESH_INTERVAL = 5000;
+
+export default function JobDetailPage() {
+  const { language } = useLanguage();
+  const { id } = useParams<{ id: string }>();
+  const [, setLocation] = useLocation();
+
+  const { data: job, isLoading, isError } = useQuery<ScanJob>({
+    queryKey: [`/api/jobs/${id}`],
+    staleTime: 0,
+    refetchOnMount: "always",
+    refetchInterval: (query) =>
+      query.state.data?.status === "processing" || query.state.data?.status === "pending"
+        ? REFRESH_INTERVAL
+        : false,
+  });
+
+  const results = job && Array.isArray(job.results) ? job.results : null;
+
+  return (
+    <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-16">
+      <div className="max-w-2xl mx-auto mb-8">
+        <Button asChild variant="ghost" className="mb-4 -ml-4">
+          <Link href="/jobs">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            {getTranslation("jobs.back", language)}
+          </Link>
+        </Button>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : isError || !job ? (
+          <p className="text-center text-muted-foreground">{getTranslation("jobs.notFound", language)}</p>
+        ) : (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-4">
+              <h1 className="text-2xl font-bold">{getTranslation("jobs.job", language, { id: job.id })}</h1>
+              <JobStatusBadge status={job.status} />
+            </div>
+            <p className="text-sm text-muted-foreground break-all">
+              {(job.sourceUrls ?? [job.driveUrl]).join(", ")}
+            </p>
+            <p className="text-xs text-muted-foreground">{new Date(job.createdAt).toLocaleString(language)}</p>
+            <div className="flex flex-wrap gap-2 pt-2">
+              {(job.status === "processing" || job.status === "paused" || job.status === "failed") && (
+                <Button asChild>
+                  <Link href={`/jobs/${job.id}/analyze`}>
+                    <Play className="mr-2 h-4 w-4" />
+                    {getTranslation("jobs.continue", language)}
+                  </Link>
+                </Button>
+              )}
+              {/* The faces of a collection-mode job are kept, so searching again is cheap */}
+              {job.status === "complete" && job.analysisOptions?.matchMode === "collection" && (
+                <Button asChild>
+                  <Link href={`/jobs/${job.id}/analyze`}>
+                    <Search className="mr-2 h-4 w-4" />
+                    {getTranslation("jobs.searchAgain", language)}
+                  </Link>
+                </Button>
+              )}
+              {job.status !== "processing" && (
+                <DeleteJobButton jobId={job.id} onDeleted={() => setLocation("/jobs")} />
+              )}
+            </div>
+            {job.status !== "complete" && (
+              <div className="pt-2">
+                <Progress value={job.imageCount ? ((results?.length ?? 0) / job.imageCount) * 100 : 0} />
+                <p className="text-sm text-muted-foreground mt-1">
+                  {getTranslation("jobs.progress", language, {
+                    processed: results?.length ?? 0,
+                    total: job.imageCount
+                  })}
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {job && (results?.length ? (
+        <ResultsDisplay
+          results={results}
+          similarityThreshold={job.analysisOptions?.similarityThreshold}
+          people={job.analysisOptions?.people}
+        />
+      ) : (
+        <p className="text-center text-muted-foreground">{getTranslation("jobs.noResults", language)}</p>
+      ))}
+    </div>
+  );
+}
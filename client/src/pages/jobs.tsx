@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2, Plus } from "lucide-react";
+import { jobStatusSchema, type JobListPage } from "@shared/schema";
+import { getTranslation } from "@shared/translations";
+import { useLanguage } from "@/lib/language-context";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { JobStatusBadge } from "@/components/job-status-badge";
+
+const PAGE_SIZE = 20;
+const ALL_STATUSES = "all";
+
+export default function JobsPage() {
+  const { language } = useLanguage();
+  const [page, setPage] = useState(1);
+  const [status, setStatus] = useState<string>(ALL_STATUSES);
+  const [source, setSource] = useState("");
+
+  const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+  if (status !== ALL_STATUSES) params.set("status", status);
+  if (source.trim()) params.set("source", source.trim());
+
+  const { data, isLoading, isError } = useQuery<JobListPage>({
+    queryKey: [`/api/jobs?${params}`],
+    // Jobs keep progressing in the background, so don't rely on the cache
+    staleTime: 0,
+    refetchOnMount: "always",
+  });
+
+  const pageCount = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  return (
+    <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-16 max-w-3xl">
+      <div className="flex items-center justify-between mb-8">
+        <h1 className="text-2xl font-bold">{getTranslation("jobs.title", language)}</h1>
+        <Button asChild variant="outline">
+          <Link href="/">
+            <Plus className="mr-2 h-4 w-4" />
+            {getTranslation("jobs.newScan", language)}
+          </Link>
+        </Button>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-4 mb-6">
+        <Select
+          value={status}
+          onValueChange={(value) => {
+            setStatus(value);
+            setPage(1);
+          }}
+        >
+          <SelectTrigger className="sm:w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_STATUSES}>
+              {getTranslation("jobs.filter.allStatuses", language)}
+            </SelectItem>
+            {jobStatusSchema.options.map((option) => (
+              <SelectItem key={option} value={option}>
+                {getTranslation(`status.${option}`, language)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={source}
+          onChange={(event) => {
+            setSource(event.target.value);
+            setPage(1);
+          }}
+          placeholder={getTranslation("jobs.filter.source", language)}
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : isError || !data ? (
+        <p className="text-center text-destructive">{getTranslation("jobs.loadError", language)}</p>
+      ) : data.jobs.length === 0 ? (
+        <p className="text-center text-muted-foreground">{getTranslation("jobs.empty", language)}</p>
+      ) : (
+        <div className="grid gap-4">
+          {data.jobs.map((job) => (
+            <Link key={job.id} href={`/jobs/${job.id}`}>
+              <Card className="cursor-pointer hover:bg-accent/50 transition-colors">
+                <CardContent className="p-4">
+                  <div className="flex items-center justify-between gap-4">
+                    <span className="font-medium">
+                      {getTranslation("jobs.job", language, { id: job.id })}
+                    </span>
+                    <JobStatusBadge status={job.status} />
+                  </div>
+                  <p className="text-sm text-muted-foreground break-all mt-1">
+                    {(job.sourceUrls ?? [job.driveUrl]).join(", ")}
+                  </p>
+                  <div className="flex flex-wrap gap-x-4 text-xs text-muted-foreground mt-2">
+                    <span>{new Date(job.createdAt).toLocaleString(language)}</span>
+                    <span>
+                      {getTranslation("jobs.progress", language, {
+                        processed: job.processedCount,
+                        total: job.imageCount
+                      })}
+                    </span>
+                    <span>{getTranslation("jobs.matches", language, { count: job.matchCount })}</span>
+                  </div>
+                </CardContent>
+              </Card>
+            </Link>
+          ))}
+
+          <div className="flex items-center justify-between">
+            <Button variant="outline" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+              {getTranslation("jobs.previous", language)}
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              {getTranslation("jobs.page", language, { page, pages: pageCount })}
+            </span>
+            <Button variant="outline" disabled={page >= pageCount} onClick={() => setPage(page + 1)}>
+              {getTranslation("jobs.next", language)}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,8 @@
+// Settings read by the server modules when they are imported; api.js imports this before them
+
+// Functions can't keep working after the response, so the browser drives each analysis batch
+process.env.FIFY_JOB_RUNNER = 'client';
+
+// The function filesystem is read-only and not shared between instances, so the
+// default SQLite store can't work; jobs are kept in Postgres unless told otherwise
+process.env.FIFY_STORAGE ??= 'postgres';
@@ -1,3 +1,4 @@
+import '../function-env.js';
 import express from 'express';
 import serverless from 'serverless-http';
 import { registerRoutes } from '../../server/routes.js';
@@ -24,7 +25,7 @@ const upload = multer({
 // Enable CORS for the Netlify function
 app.use((req, res, next) => {
   res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
   res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
   
   if (req.method === 'OPTIONS') {
@@ -0,0 +1,280 @@
+import type Database from "better-sqlite3";
+import type { Pool } from "@neondatabase/serverless";
+
+// Column selected from schema_migrations to tell which migrations are applied
+interface AppliedMigrationRow {
+  id: number;
+}
+
+export interface Migration {
+  id: number;
+  name: string;
+  sql: string;
+}
+
+// Applied in order and recorded in schema_migrations; never edit a released migration, add a new one
+export const sqliteMigrations: Migration[] = [
+  {
+    id: 1,
+    name: "create_scan_jobs",
+    sql: `
+      CREATE TABLE scan_jobs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        drive_url TEXT NOT NULL,
+        source_urls TEXT,
+        drive_type TEXT NOT NULL,
+        scan_options TEXT,
+        image_count INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        results TEXT,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX scan_jobs_status_idx ON scan_jobs (status);
+    `,
+  },
+  {
+    id: 2,
+    name: "create_reference_images",
+    sql: `
+      CREATE TABLE reference_images (
+        id TEXT PRIMARY KEY,
+        data BLOB NOT NULL,
+        mime_type TEXT,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+      );
+      CREATE INDEX reference_images_expires_at_idx ON reference_images (expires_at);
+    `,
+  },
+  {
+    id: 3,
+    name: "create_analysis_tasks",
+    sql: `
+      CREATE TABLE analysis_tasks (
+        job_id INTEGER PRIMARY KEY,
+        reference_image_id TEXT NOT NULL,
+        next_index INTEGER NOT NULL,
+        credentials TEXT,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        lease_until TEXT,
+        created_at TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    id: 4,
+    name: "add_scan_jobs_analysis_options",
+    sql: `
+      ALTER TABLE scan_jobs ADD COLUMN analysis_options TEXT;
+    `,
+  },
+  {
+    id: 5,
+    name: "add_analysis_tasks_reference_image_ids",
+    sql: `
+      ALTER TABLE analysis_tasks ADD COLUMN reference_image_ids TEXT;
+    `,
+  },
+  {
+    id: 6,
+    name: "create_folder_indexes",
+    sql: `
+      CREATE TABLE folder_indexes (
+        folder_id TEXT PRIMARY KEY,
+        job_id INTEGER NOT NULL,
+        scan_options TEXT,
+        image_count INTEGER NOT NULL,
+        modified_time TEXT,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX folder_indexes_job_id_idx ON folder_indexes (job_id);
+    `,
+  },
+  {
+    id: 7,
+    name: "drop_analysis_tasks_reference_image_id",
+    // Superseded by reference_image_ids; tasks that build a folder index have no reference photo
+    sql: `
+      UPDATE analysis_tasks SET reference_image_ids = json_array(reference_image_id)
+      WHERE reference_image_ids IS NULL;
+      ALTER TABLE analysis_tasks DROP COLUMN reference_image_id;
+    `,
+  },
+  {
+    id: 8,
+    name: "add_folder_indexes_fingerprint",
+    // Indexes saved without a fingerprint can't be checked for changes; the folders are indexed again
+    sql: `
+      DELETE FROM folder_indexes;
+      -- SQLite only adds a NOT NULL column with a default
+      ALTER TABLE folder_indexes ADD COLUMN fingerprint TEXT NOT NULL DEFAULT '';
+    `,
+  },
+];
+
+export const postgresMigrations: Migration[] = [
+  {
+    id: 1,
+    name: "create_scan_jobs",
+    sql: `
+      CREATE TABLE scan_jobs (
+        id SERIAL PRIMARY KEY,
+        drive_url TEXT NOT NULL,
+        source_urls JSONB,
+        drive_type TEXT NOT NULL,
+        scan_options JSONB,
+        image_count INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        results JSONB,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX scan_jobs_status_idx ON scan_jobs (status);
+    `,
+  },
+  {
+    id: 2,
+    name: "create_reference_images",
+    sql: `
+      CREATE TABLE reference_images (
+        id TEXT PRIMARY KEY,
+        data BYTEA NOT NULL,
+        mime_type TEXT,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+      );
+      CREATE INDEX reference_images_expires_at_idx ON reference_images (expires_at);
+    `,
+  },
+  {
+    id: 3,
+    name: "create_analysis_tasks",
+    sql: `
+      CREATE TABLE analysis_tasks (
+        job_id INTEGER PRIMARY KEY,
+        reference_image_id TEXT NOT NULL,
+        next_index INTEGER NOT NULL,
+        credentials TEXT,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        lease_until TEXT,
+        created_at TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    id: 4,
+    name: "add_scan_jobs_analysis_options",
+    sql: `
+      ALTER TABLE scan_jobs ADD COLUMN analysis_options JSONB;
+    `,
+  },
+  {
+    id: 5,
+    name: "add_analysis_tasks_reference_image_ids",
+    sql: `
+      ALTER TABLE analysis_tasks ADD COLUMN reference_image_ids JSONB;
+    `,
+  },
+  {
+    id: 6,
+    name: "create_folder_indexes",
+    sql: `
+      CREATE TABLE folder_indexes (
+        folder_id TEXT PRIMARY KEY,
+        job_id INTEGER NOT NULL,
+        scan_options JSONB,
+        image_count INTEGER NOT NULL,
+        modified_time TEXT,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX folder_indexes_job_id_idx ON folder_indexes (job_id);
+    `,
+  },
+  {
+    id: 7,
+    name: "drop_analysis_tasks_reference_image_id",
+    // Superseded by reference_image_ids; tasks that build a folder index have no reference photo
+    sql: `
+      UPDATE analysis_tasks SET reference_image_ids = jsonb_build_array(reference_image_id)
+      WHERE reference_image_ids IS NULL;
+      ALTER TABLE analysis_tasks DROP COLUMN reference_image_id;
+    `,
+  },
+  {
+    id: 8,
+    name: "add_folder_indexes_fingerprint",
+    // Indexes saved without a fingerprint can't be checked for changes; the folders are indexed again
+    sql: `
+      DELETE FROM folder_indexes;
+      ALTER TABLE folder_indexes ADD COLUMN fingerprint TEXT NOT NULL;
+    `,
+  },
+];
+
+export function runSqliteMigrations(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      id INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+
+  const applied = new Set(
+    (db.prepare("SELECT id FROM schema_migrations").all() as AppliedMigrationRow[]).map((row) => row.id),
+  );
+
+  for (const migration of sqliteMigrations) {
+    if (applied.has(migration.id)) continue;
+
+    // Each migration runs in its own transaction so a failure leaves no partial schema
+    db.transaction(() => {
+      db.exec(migration.sql);
+      db.prepare("INSERT INTO schema_migrations (id, name, applied_at) VALUES (?, ?, ?)")
+        .run(migration.id, migration.name, new Date().toISOString());
+    })();
+    console.log(`[DB] Applied SQLite migration ${migration.id}_${migration.name}`);
+  }
+}
+
+export async function runPostgresMigrations(pool: Pool): Promise<void> {
+  const client = await pool.connect();
+  try {
+    // Serialize migrations across instances starting at the same time; the
+    // migrations table is created under the lock too
+    await client.query("SELECT pg_advisory_lock(727274)");
+    try {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+          id INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          applied_at TEXT NOT NULL
+        )
+      `);
+
+      const { rows } = await client.query<AppliedMigrationRow>("SELECT id FROM schema_migrations");
+      const applied = new Set(rows.map((row) => row.id));
+
+      for (const migration of postgresMigrations) {
+        if (applied.has(migration.id)) continue;
+
+        await client.query("BEGIN");
+        try {
+          await client.query(migration.sql);
+          await client.query(
+            "INSERT INTO schema_migrations (id, name, applied_at) VALUES ($1, $2, $3)",
+            [migration.id, migration.name, new Date().toISOString()],
+          );
+          await client.query("COMMIT");
+          console.log(`[DB] Applied Postgres migration ${migration.id}_${migration.name}`);
+        } catch (error) {
+          await client.query("ROLLBACK");
+          throw error;
+        }
+      }
+    } finally {
+      await client.query("SELECT pg_advisory_unlock(727274)");
+    }
+  } finally {
+    client.release();
+  }
+}
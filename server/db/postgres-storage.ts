@@ -0,0 +1,296 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import ws from "ws";
+import {
+  getJobStatusesAllowedBefore,
+  HALTED_JOB_STATUSES,
+  type AnalysisOptions,
+  type FolderIndex,
+  type InsertScanJob,
+  type JobListQuery,
+  type JobStatus,
+  type ScanJob,
+  type ScanResult,
+} from "@shared/schema";
+import {
+  InvalidJobStatusTransitionError,
+  validateScanResults,
+  type AnalysisTaskRecord,
+  type IStorage,
+  type ReferenceImageRecord,
+} from "../storage";
+import { runPostgresMigrations } from "./migrations";
+import {
+  analysisTaskChanges,
+  buildJobListFilter,
+  rowToAnalysisTask,
+  rowToFolderIndex,
+  rowToReferenceImage,
+  rowToScanJob,
+  type AnalysisTaskRow,
+  type FolderIndexRow,
+  type ReferenceImageRow,
+  type ScanJobRow,
+} from "./scan-job-row";
+
+// The serverless driver talks to Postgres over WebSockets; Node has no global WebSocket
+neonConfig.webSocketConstructor = ws;
+
+/**
+ * IStorage backed by Postgres (Neon or any server reachable by the Neon
+ * serverless driver). Migrations run once, before the first query.
+ */
+export class PostgresStorage implements IStorage {
+  private pool: Pool;
+  private ready: Promise<void>;
+
+  constructor(connectionString: string) {
+    this.pool = new Pool({ connectionString });
+    this.ready = runPostgresMigrations(this.pool);
+    this.ready.catch((error) => console.error("[DB] Postgres migrations failed:", error));
+  }
+
+  async createScanJob(insertJob: InsertScanJob): Promise<ScanJob> {
+    const rows = await this.query(`
+      INSERT INTO scan_jobs (drive_url, source_urls, drive_type, scan_options, image_count, status, results, created_at)
+      VALUES ($1, $2, $3, $4, $5, $6, NULL, $7)
+      RETURNING *
+    `, [
+      insertJob.driveUrl,
+      toJson(insertJob.sourceUrls),
+      insertJob.driveType,
+      toJson(insertJob.scanOptions),
+      insertJob.imageCount,
+      insertJob.status,
+      insertJob.createdAt,
+    ]);
+
+    return rowToScanJob(rows[0]);
+  }
+
+  async getScanJob(id: number): Promise<ScanJob | undefined> {
+    const rows = await this.query("SELECT * FROM scan_jobs WHERE id = $1", [id]);
+    return rows[0] ? rowToScanJob(rows[0]) : undefined;
+  }
+
+  async listScanJobs(query: JobListQuery): Promise<{ jobs: ScanJob[]; total: number }> {
+    const { where, params } = buildJobListFilter(query, (index) => `$${index}`, "source_urls::text");
+    const [{ total }] = await this.query<{ total: string }>(`SELECT COUNT(*) AS total FROM scan_jobs ${where}`, params);
+    const rows = await this.query(
+      `SELECT * FROM scan_jobs ${where} ORDER BY id DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, query.pageSize, (query.page - 1) * query.pageSize],
+    );
+
+    return { jobs: rows.map(rowToScanJob), total: parseInt(total, 10) };
+  }
+
+  async updateScanJobResults(id: number, results: ScanResult[] | null, status: JobStatus = 'complete'): Promise<ScanJob> {
+    // The status check is part of the update so a concurrent change can't slip in between
+    const rows = await this.query(
+      "UPDATE scan_jobs SET results = $1, status = $2 WHERE id = $3 AND status = ANY($4) RETURNING *",
+      [toJson(results && validateScanResults(results)), status, id, getJobStatusesAllowedBefore(status)],
+    );
+
+    if (!rows[0]) {
+      const job = await this.getScanJob(id);
+      if (!job) throw new Error("Job not found");
+      throw new InvalidJobStatusTransitionError(job.status, status);
+    }
+
+    return rowToScanJob(rows[0]);
+  }
+
+  async updateScanJobStatus(id: number, status: JobStatus): Promise<ScanJob> {
+    const rows = await this.query(
+      "UPDATE scan_jobs SET status = $1 WHERE id = $2 AND status = ANY($3) RETURNING *",
+      [status, id, getJobStatusesAllowedBefore(status)],
+    );
+
+    if (!rows[0]) {
+      const job = await this.getScanJob(id);
+      if (!job) throw new Error("Job not found");
+      throw new InvalidJobStatusTransitionError(job.status, status);
+    }
+
+    return rowToScanJob(rows[0]);
+  }
+
+  async saveScanJobProgress(id: number, results: ScanResult[], status: JobStatus): Promise<ScanJob> {
+    // Checked and kept within the update, so a pause or cancel can't be undone by a batch
+    const rows = await this.query(
+      `UPDATE scan_jobs SET results = $1, status = CASE WHEN status = ANY($4) THEN status ELSE $2 END
+       WHERE id = $3 AND status = ANY($5) RETURNING *`,
+      [
+        toJson(validateScanResults(results)),
+        status,
+        id,
+        HALTED_JOB_STATUSES,
+        [...getJobStatusesAllowedBefore(status), ...HALTED_JOB_STATUSES],
+      ],
+    );
+
+    if (!rows[0]) {
+      const job = await this.getScanJob(id);
+      if (!job) throw new Error("Job not found");
+      throw new InvalidJobStatusTransitionError(job.status, status);
+    }
+
+    return rowToScanJob(rows[0]);
+  }
+
+  async updateJobImageCount(id: number, imageCount: number): Promise<ScanJob> {
+    const rows = await this.query(
+      "UPDATE scan_jobs SET image_count = $1 WHERE id = $2 RETURNING *",
+      [imageCount, id],
+    );
+    if (!rows[0]) throw new Error(`Job with id ${id} not found`);
+
+    return rowToScanJob(rows[0]);
+  }
+
+  async updateJobAnalysisOptions(id: number, options: AnalysisOptions): Promise<ScanJob> {
+    const rows = await this.query(
+      "UPDATE scan_jobs SET analysis_options = $1 WHERE id = $2 RETURNING *",
+      [toJson(options), id],
+    );
+    if (!rows[0]) throw new Error(`Job with id ${id} not found`);
+
+    return rowToScanJob(rows[0]);
+  }
+
+  async deleteScanJob(id: number): Promise<boolean> {
+    await this.ready;
+    // One transaction, so a failure can't leave the job's task or indexes behind
+    const client = await this.pool.connect();
+    try {
+      await client.query("BEGIN");
+      await client.query("DELETE FROM analysis_tasks WHERE job_id = $1", [id]);
+      await client.query("DELETE FROM folder_indexes WHERE job_id = $1", [id]);
+      const { rows } = await client.query("DELETE FROM scan_jobs WHERE id = $1 RETURNING id", [id]);
+      await client.query("COMMIT");
+      return rows.length > 0;
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async listJobIdsUsingIndex(indexJobId: number): Promise<number[]> {
+    const rows = await this.query<{ id: number }>(
+      "SELECT id FROM scan_jobs WHERE analysis_options->>'indexJobId' = $1 ORDER BY id",
+      [String(indexJobId)],
+    );
+    return rows.map((row) => row.id);
+  }
+
+  async saveFolderIndex(index: FolderIndex): Promise<void> {
+    await this.query(`
+      INSERT INTO folder_indexes (folder_id, job_id, scan_options, image_count, modified_time, fingerprint, created_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      ON CONFLICT (folder_id) DO UPDATE SET
+        job_id = EXCLUDED.job_id,
+        scan_options = EXCLUDED.scan_options,
+        image_count = EXCLUDED.image_count,
+        modified_time = EXCLUDED.modified_time,
+        fingerprint = EXCLUDED.fingerprint,
+        created_at = EXCLUDED.created_at
+    `, [
+      index.folderId,
+      index.jobId,
+      toJson(index.scanOptions),
+      index.imageCount,
+      index.modifiedTime,
+      index.fingerprint,
+      index.createdAt,
+    ]);
+  }
+
+  async getFolderIndex(folderId: string): Promise<FolderIndex | undefined> {
+    const rows = await this.query<FolderIndexRow>("SELECT * FROM folder_indexes WHERE folder_id = $1", [folderId]);
+    return rows[0] ? rowToFolderIndex(rows[0]) : undefined;
+  }
+
+  async saveReferenceImage(image: ReferenceImageRecord): Promise<void> {
+    await this.query(`
+      INSERT INTO reference_images (id, data, mime_type, created_at, expires_at)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (id) DO UPDATE SET expires_at = EXCLUDED.expires_at
+    `, [image.id, image.data, image.mimeType ?? null, image.createdAt, image.expiresAt]);
+  }
+
+  async getReferenceImage(id: string): Promise<ReferenceImageRecord | undefined> {
+    const rows = await this.query<ReferenceImageRow>("SELECT * FROM reference_images WHERE id = $1", [id]);
+    return rows[0] ? rowToReferenceImage(rows[0]) : undefined;
+  }
+
+  async deleteExpiredReferenceImages(before: string): Promise<number> {
+    const rows = await this.query<{ id: string }>(
+      "DELETE FROM reference_images WHERE expires_at < $1 RETURNING id",
+      [before],
+    );
+    return rows.length;
+  }
+
+  async saveAnalysisTask(task: AnalysisTaskRecord): Promise<void> {
+    await this.query(`
+      INSERT INTO analysis_tasks (job_id, reference_image_ids, next_index, credentials, attempts, lease_until, created_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      ON CONFLICT (job_id) DO UPDATE SET
+        reference_image_ids = EXCLUDED.reference_image_ids,
+        next_index = EXCLUDED.next_index,
+        credentials = EXCLUDED.credentials,
+        attempts = EXCLUDED.attempts,
+        lease_until = EXCLUDED.lease_until,
+        created_at = EXCLUDED.created_at
+    `, [
+      task.jobId,
+      toJson(task.referenceImageIds),
+      task.nextIndex,
+      task.credentials ?? null,
+      task.attempts,
+      task.leaseUntil ?? null,
+      task.createdAt,
+    ]);
+  }
+
+  async claimAnalysisTask(now: string, leaseUntil: string): Promise<AnalysisTaskRecord | undefined> {
+    // SKIP LOCKED lets concurrent workers each claim a different task
+    const rows = await this.query<AnalysisTaskRow>(`
+      UPDATE analysis_tasks SET lease_until = $1
+      WHERE job_id = (
+        SELECT job_id FROM analysis_tasks
+        WHERE lease_until IS NULL OR lease_until < $2
+        ORDER BY created_at LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `, [leaseUntil, now]);
+    return rows[0] ? rowToAnalysisTask(rows[0]) : undefined;
+  }
+
+  async updateAnalysisTask(jobId: number, changes: Partial<Pick<AnalysisTaskRecord, "nextIndex" | "attempts" | "leaseUntil">>): Promise<void> {
+    const columns = analysisTaskChanges(changes);
+    if (columns.length === 0) return;
+
+    await this.query(
+      `UPDATE analysis_tasks SET ${columns.map(([column], i) => `${column} = $${i + 1}`).join(", ")} WHERE job_id = $${columns.length + 1}`,
+      [...columns.map(([, value]) => value), jobId],
+    );
+  }
+
+  async deleteAnalysisTask(jobId: number): Promise<void> {
+    await this.query("DELETE FROM analysis_tasks WHERE job_id = $1", [jobId]);
+  }
+
+  private async query<T = ScanJobRow>(sql: string, params: unknown[]): Promise<T[]> {
+    await this.ready;
+    const { rows } = await this.pool.query(sql, params);
+    return rows as T[];
+  }
+}
+
+// JSONB parameters are sent as JSON text
+function toJson(value: unknown): string | null {
+  return value === undefined || value === null ? null : JSON.stringify(value);
+}
@@ -0,0 +1,160 @@
+import {
+  jobStatusSchema,
+  type FolderIndex,
+  type JobListQuery,
+  type ScanJob,
+  type ScanResult,
+} from "@shared/schema";
+import type { AnalysisTaskRecord, ReferenceImageRecord } from "../storage";
+
+// Column layout of the scan_jobs table, shared by the SQLite and Postgres stores
+export interface ScanJobRow {
+  id: number;
+  drive_url: string;
+  source_urls: unknown;
+  drive_type: string;
+  scan_options: unknown;
+  analysis_options: unknown;
+  image_count: number;
+  status: string;
+  results: unknown;
+  created_at: string;
+}
+
+// SQLite returns JSON columns as text, Postgres JSONB as already parsed values
+export function parseJsonColumn<T>(value: unknown): T | null {
+  if (value === null || value === undefined) return null;
+  return (typeof value === "string" ? JSON.parse(value) : value) as T;
+}
+
+export function rowToScanJob(row: ScanJobRow): ScanJob {
+  const job: ScanJob = {
+    id: row.id,
+    driveUrl: row.drive_url,
+    driveType: row.drive_type,
+    imageCount: row.image_count,
+    status: jobStatusSchema.parse(row.status),
+    results: parseJsonColumn<ScanResult[]>(row.results),
+    createdAt: row.created_at,
+  };
+
+  // Optional fields are left out rather than set to null, matching MemStorage
+  const sourceUrls = parseJsonColumn<string[]>(row.source_urls);
+  if (sourceUrls) job.sourceUrls = sourceUrls;
+
+  const scanOptions = parseJsonColumn<ScanJob["scanOptions"]>(row.scan_options);
+  if (scanOptions) job.scanOptions = scanOptions;
+
+  const analysisOptions = parseJsonColumn<ScanJob["analysisOptions"]>(row.analysis_options);
+  if (analysisOptions) job.analysisOptions = analysisOptions;
+
+  return job;
+}
+
+/**
+ * WHERE clause for listing jobs. `placeholder` renders the n-th (1-based)
+ * parameter in the driver's syntax and `sourceUrlsText` is the source_urls
+ * column as text.
+ */
+export function buildJobListFilter(
+  query: JobListQuery,
+  placeholder: (index: number) => string,
+  sourceUrlsText: string,
+): { where: string; params: unknown[] } {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  const next = (value: unknown) => {
+    params.push(value);
+    return placeholder(params.length);
+  };
+
+  if (query.status) {
+    conditions.push(`status = ${next(query.status)}`);
+  }
+  if (query.sourceType) {
+    conditions.push(`drive_type = ${next(query.sourceType)}`);
+  }
+  if (query.source) {
+    const pattern = `%${query.source.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+    conditions.push(`(drive_url LIKE ${next(pattern)} ESCAPE '\\' OR ${sourceUrlsText} LIKE ${next(pattern)} ESCAPE '\\')`);
+  }
+
+  return { where: conditions.length ? `WHERE ${conditions.join(" AND ")}` : "", params };
+}
+
+export interface ReferenceImageRow {
+  id: string;
+  data: Buffer | Uint8Array;
+  mime_type: string | null;
+  created_at: string;
+  expires_at: string;
+}
+
+export function rowToReferenceImage(row: ReferenceImageRow): ReferenceImageRecord {
+  return {
+    id: row.id,
+    data: Buffer.from(row.data),
+    mimeType: row.mime_type ?? undefined,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+export interface AnalysisTaskRow {
+  job_id: number;
+  reference_image_ids: unknown;
+  next_index: number;
+  credentials: string | null;
+  attempts: number;
+  lease_until: string | null;
+  created_at: string;
+}
+
+export function rowToAnalysisTask(row: AnalysisTaskRow): AnalysisTaskRecord {
+  return {
+    jobId: row.job_id,
+    referenceImageIds: parseJsonColumn<string[]>(row.reference_image_ids) ?? [],
+    nextIndex: row.next_index,
+    credentials: row.credentials ?? undefined,
+    attempts: row.attempts,
+    leaseUntil: row.lease_until ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+// Column assignments for a partial task update, in a stable order
+export function analysisTaskChanges(
+  changes: Partial<Pick<AnalysisTaskRecord, "nextIndex" | "attempts" | "leaseUntil">>,
+): Array<[string, unknown]> {
+  const columns: Array<[string, unknown]> = [];
+  if (changes.nextIndex !== undefined) columns.push(["next_index", changes.nextIndex]);
+  if (changes.attempts !== undefined) columns.push(["attempts", changes.attempts]);
+  if ("leaseUntil" in changes) columns.push(["lease_until", changes.leaseUntil ?? null]);
+  return columns;
+}
+
+export interface FolderIndexRow {
+  folder_id: string;
+  job_id: number;
+  scan_options: unknown;
+  image_count: number;
+  modified_time: string | null;
+  fingerprint: string;
+  created_at: string;
+}
+
+export function rowToFolderIndex(row: FolderIndexRow): FolderIndex {
+  const index: FolderIndex = {
+    folderId: row.folder_id,
+    jobId: row.job_id,
+    imageCount: row.image_count,
+    modifiedTime: row.modified_time,
+    fingerprint: row.fingerprint,
+    createdAt: row.created_at,
+  };
+
+  const scanOptions = parseJsonColumn<FolderIndex["scanOptions"]>(row.scan_options);
+  if (scanOptions) index.scanOptions = scanOptions;
+
+  return index;
+}
@@ -0,0 +1,250 @@
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import {
+  getJobStatusesAllowedBefore,
+  HALTED_JOB_STATUSES,
+  type AnalysisOptions,
+  type FolderIndex,
+  type InsertScanJob,
+  type JobListQuery,
+  type JobStatus,
+  type ScanJob,
+  type ScanResult,
+} from "@shared/schema";
+import {
+  InvalidJobStatusTransitionError,
+  validateScanResults,
+  type AnalysisTaskRecord,
+  type IStorage,
+  type ReferenceImageRecord,
+} from "../storage";
+import { runSqliteMigrations } from "./migrations";
+import {
+  analysisTaskChanges,
+  buildJobListFilter,
+  rowToAnalysisTask,
+  rowToFolderIndex,
+  rowToReferenceImage,
+  rowToScanJob,
+  type AnalysisTaskRow,
+  type FolderIndexRow,
+  type ReferenceImageRow,
+  type ScanJobRow,
+} from "./scan-job-row";
+
+/**
+ * IStorage backed by a SQLite file. WAL mode and a busy timeout let several
+ * server processes on the same host share the file.
+ */
+export class SqliteStorage implements IStorage {
+  private db: Database.Database;
+
+  constructor(filePath: string) {
+    if (filePath !== ":memory:") {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+
+    this.db = new Database(filePath);
+    this.db.pragma("journal_mode = WAL");
+    this.db.pragma("busy_timeout = 5000");
+    runSqliteMigrations(this.db);
+  }
+
+  async createScanJob(insertJob: InsertScanJob): Promise<ScanJob> {
+    const result = this.db.prepare(`
+      INSERT INTO scan_jobs (drive_url, source_urls, drive_type, scan_options, image_count, status, results, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, NULL, ?)
+    `).run(
+      insertJob.driveUrl,
+      toJson(insertJob.sourceUrls),
+      insertJob.driveType,
+      toJson(insertJob.scanOptions),
+      insertJob.imageCount,
+      insertJob.status,
+      insertJob.createdAt,
+    );
+
+    return (await this.getScanJob(Number(result.lastInsertRowid)))!;
+  }
+
+  async getScanJob(id: number): Promise<ScanJob | undefined> {
+    const row = this.db.prepare("SELECT * FROM scan_jobs WHERE id = ?").get(id) as ScanJobRow | undefined;
+    return row ? rowToScanJob(row) : undefined;
+  }
+
+  async listScanJobs(query: JobListQuery): Promise<{ jobs: ScanJob[]; total: number }> {
+    const { where, params } = buildJobListFilter(query, () => "?", "source_urls");
+    const { total } = this.db.prepare(`SELECT COUNT(*) AS total FROM scan_jobs ${where}`).get(...params) as { total: number };
+    const rows = this.db.prepare(`SELECT * FROM scan_jobs ${where} ORDER BY id DESC LIMIT ? OFFSET ?`)
+      .all(...params, query.pageSize, (query.page - 1) * query.pageSize) as ScanJobRow[];
+
+    return { jobs: rows.map(rowToScanJob), total };
+  }
+
+  async updateScanJobResults(id: number, results: ScanResult[] | null, status: JobStatus = 'complete'): Promise<ScanJob> {
+    // The status check is part of the update so a concurrent change can't slip in between
+    const allowedFrom = getJobStatusesAllowedBefore(status);
+    const result = this.db.prepare(`
+      UPDATE scan_jobs SET results = ?, status = ?
+      WHERE id = ? AND status IN (${allowedFrom.map(() => "?").join(", ")})
+    `).run(toJson(results && validateScanResults(results)), status, id, ...allowedFrom);
+
+    if (result.changes === 0) {
+      const job = await this.getScanJob(id);
+      if (!job) throw new Error("Job not found");
+      throw new InvalidJobStatusTransitionError(job.status, status);
+    }
+
+    return (await this.getScanJob(id))!;
+  }
+
+  async updateScanJobStatus(id: number, status: JobStatus): Promise<ScanJob> {
+    const allowedFrom = getJobStatusesAllowedBefore(status);
+    const result = this.db.prepare(`
+      UPDATE scan_jobs SET status = ?
+      WHERE id = ? AND status IN (${allowedFrom.map(() => "?").join(", ")})
+    `).run(status, id, ...allowedFrom);
+
+    if (result.changes === 0) {
+      const job = await this.getScanJob(id);
+      if (!job) throw new Error("Job not found");
+      throw new InvalidJobStatusTransitionError(job.status, status);
+    }
+
+    return (await this.getScanJob(id))!;
+  }
+
+  async saveScanJobProgress(id: number, results: ScanResult[], status: JobStatus): Promise<ScanJob> {
+    // Checked and kept within the update, so a pause or cancel can't be undone by a batch
+    const halted = [...HALTED_JOB_STATUSES];
+    const allowedFrom = [...getJobStatusesAllowedBefore(status), ...halted];
+    const result = this.db.prepare(`
+      UPDATE scan_jobs
+      SET results = ?, status = CASE WHEN status IN (${halted.map(() => "?").join(", ")}) THEN status ELSE ? END
+      WHERE id = ? AND status IN (${allowedFrom.map(() => "?").join(", ")})
+    `).run(toJson(validateScanResults(results)), ...halted, status, id, ...allowedFrom);
+
+    if (result.changes === 0) {
+      const job = await this.getScanJob(id);
+      if (!job) throw new Error("Job not found");
+      throw new InvalidJobStatusTransitionError(job.status, status);
+    }
+
+    return (await this.getScanJob(id))!;
+  }
+
+  async updateJobImageCount(id: number, imageCount: number): Promise<ScanJob> {
+    const result = this.db.prepare("UPDATE scan_jobs SET image_count = ? WHERE id = ?")
+      .run(imageCount, id);
+    if (result.changes === 0) throw new Error(`Job with id ${id} not found`);
+
+    return (await this.getScanJob(id))!;
+  }
+
+  async updateJobAnalysisOptions(id: number, options: AnalysisOptions): Promise<ScanJob> {
+    const result = this.db.prepare("UPDATE scan_jobs SET analysis_options = ? WHERE id = ?")
+      .run(toJson(options), id);
+    if (result.changes === 0) throw new Error(`Job with id ${id} not found`);
+
+    return (await this.getScanJob(id))!;
+  }
+
+  async deleteScanJob(id: number): Promise<boolean> {
+    const deleteJob = this.db.transaction(() => {
+      this.db.prepare("DELETE FROM analysis_tasks WHERE job_id = ?").run(id);
+      this.db.prepare("DELETE FROM folder_indexes WHERE job_id = ?").run(id);
+      return this.db.prepare("DELETE FROM scan_jobs WHERE id = ?").run(id).changes > 0;
+    });
+    return deleteJob();
+  }
+
+  async listJobIdsUsingIndex(indexJobId: number): Promise<number[]> {
+    const rows = this.db.prepare(
+      "SELECT id FROM scan_jobs WHERE json_extract(analysis_options, '$.indexJobId') = ? ORDER BY id",
+    ).all(indexJobId) as { id: number }[];
+    return rows.map((row) => row.id);
+  }
+
+  async saveFolderIndex(index: FolderIndex): Promise<void> {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO folder_indexes (folder_id, job_id, scan_options, image_count, modified_time, fingerprint, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      index.folderId,
+      index.jobId,
+      toJson(index.scanOptions),
+      index.imageCount,
+      index.modifiedTime,
+      index.fingerprint,
+      index.createdAt,
+    );
+  }
+
+  async getFolderIndex(folderId: string): Promise<FolderIndex | undefined> {
+    const row = this.db.prepare("SELECT * FROM folder_indexes WHERE folder_id = ?").get(folderId) as FolderIndexRow | undefined;
+    return row ? rowToFolderIndex(row) : undefined;
+  }
+
+  async saveReferenceImage(image: ReferenceImageRecord): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO reference_images (id, data, mime_type, created_at, expires_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT (id) DO UPDATE SET expires_at = excluded.expires_at
+    `).run(image.id, image.data, image.mimeType ?? null, image.createdAt, image.expiresAt);
+  }
+
+  async getReferenceImage(id: string): Promise<ReferenceImageRecord | undefined> {
+    const row = this.db.prepare("SELECT * FROM reference_images WHERE id = ?").get(id) as ReferenceImageRow | undefined;
+    return row ? rowToReferenceImage(row) : undefined;
+  }
+
+  async deleteExpiredReferenceImages(before: string): Promise<number> {
+    return this.db.prepare("DELETE FROM reference_images WHERE expires_at < ?").run(before).changes;
+  }
+
+  async saveAnalysisTask(task: AnalysisTaskRecord): Promise<void> {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO analysis_tasks (job_id, reference_image_ids, next_index, credentials, attempts, lease_until, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      task.jobId,
+      toJson(task.referenceImageIds),
+      task.nextIndex,
+      task.credentials ?? null,
+      task.attempts,
+      task.leaseUntil ?? null,
+      task.createdAt,
+    );
+  }
+
+  async claimAnalysisTask(now: string, leaseUntil: string): Promise<AnalysisTaskRecord | undefined> {
+    // A single statement, so two processes sharing the file can't claim the same task
+    const row = this.db.prepare(`
+      UPDATE analysis_tasks SET lease_until = ?
+      WHERE job_id = (
+        SELECT job_id FROM analysis_tasks
+        WHERE lease_until IS NULL OR lease_until < ?
+        ORDER BY created_at LIMIT 1
+      )
+      RETURNING *
+    `).get(leaseUntil, now) as AnalysisTaskRow | undefined;
+    return row ? rowToAnalysisTask(row) : undefined;
+  }
+
+  async updateAnalysisTask(jobId: number, changes: Partial<Pick<AnalysisTaskRecord, "nextIndex" | "attempts" | "leaseUntil">>): Promise<void> {
+    const columns = analysisTaskChanges(changes);
+    if (columns.length === 0) return;
+
+    this.db.prepare(`UPDATE analysis_tasks SET ${columns.map(([column]) => `${column} = ?`).join(", ")} WHERE job_id = ?`)
+      .run(...columns.map(([, value]) => value), jobId);
+  }
+
+  async deleteAnalysisTask(jobId: number): Promise<void> {
+    this.db.prepare("DELETE FROM analysis_tasks WHERE job_id = ?").run(jobId);
+  }
+}
+
+function toJson(value: unknown): string | null {
+  return value === undefined || value === null ? null : JSON.stringify(value);
+}
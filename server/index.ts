@@ -6,6 +6,8 @@ import express, { type Request, Response, NextFunction } from "express";
 import { createServer } from "http";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { isBackgroundRunnerEnabled, jobWorker } from "./services/job-worker";
+import { attachJobEventsWebSocket } from "./services/job-events";
 
 // Log environment variables to confirm they're loaded (remove in production)
 console.log('Environment variables loaded:');
@@ -54,6 +56,9 @@ app.use((req, res, next) => {
   // Register the routes
   registerRoutes(app);
 
+  // Live job progress over WebSocket, next to the SSE route
+  attachJobEventsWebSocket(server);
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
@@ -75,5 +80,10 @@ app.use((req, res, next) => {
   const PORT = parseInt(process.env.PORT || "5000", 10);
   server.listen(PORT, "0.0.0.0", () => {
     log(`serving on port ${PORT}`);
+
+    // Process queued analyses in the background
+    if (isBackgroundRunnerEnabled()) {
+      jobWorker.start();
+    }
   });
 })();
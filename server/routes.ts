@@ -1,15 +1,70 @@
 import { Express } from 'express';
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { driveUrlSchema } from "@shared/schema";
+import { InvalidJobStatusTransitionError, storage } from "./storage";
+import {
+  analysisOptionsSchema,
+  DEFAULT_ANALYSIS_OPTIONS,
+  getJobSourceUrls,
+  getNextImageIndex,
+  HALTED_JOB_STATUSES,
+  jobListQuerySchema,
+  MAX_PEOPLE_PER_ANALYSIS,
+  MAX_REFERENCE_PHOTOS,
+  referenceCheckChoicesSchema,
+  toJobSummary,
+  type FolderIndex,
+  type JobListPage,
+  type JobStatus,
+  type ScanJob,
+  type ScanResult,
+  scanOptionsSchema,
+  sourceUrlsSchema,
+  type ScanOptions,
+} from "@shared/schema";
 import { isDevelopment } from "@shared/config";
 import { z } from "zod";
 import multer from "multer";
-import { createStorageProvider } from "./services/cloud-storage";
+import fs from "fs/promises";
+import os from "os";
+import {
+  createStorageProviderForSources,
+  getStorageType,
+  requiresGoogleApiKey,
+  StorageAccessError,
+} from "./services/cloud-storage";
+import { isFixtureMode } from "./services/fixtures";
+import {
+  analyzeBatch,
+  getJobCollectionId,
+  searchCollection,
+  supportsCollectionMode,
+} from "./services/analysis";
+import { isBackgroundRunnerEnabled, jobWorker } from "./services/job-worker";
+import { publishJobEvent, streamJobEvents } from "./services/job-events";
+import {
+  ContinuationTokenError,
+  type ContinuationState,
+  createContinuationToken,
+  verifyContinuationToken,
+} from "./services/continuation-token";
 import {
-  RekognitionClient,
-  CompareFacesCommand,
-} from "@aws-sdk/client-rekognition";
+  cleanupExpiredReferenceImages,
+  loadReferenceImages,
+  saveReferenceImage,
+} from "./services/reference-images";
+import {
+  cleanupExpiredArchives,
+  extractZipArchive,
+  MAX_ZIP_UPLOAD_BYTES,
+} from "./services/zip-archive";
+import {
+  createFaceComparisonEngine,
+  engineRequiresAwsCredentials,
+  getConfiguredEngineName,
+  type FaceComparisonEngine,
+} from "./services/face-comparison";
+import { prepareReferenceImages, ReferenceCheckError } from "./services/reference-check";
+import { findUpToDateFolderIndex, getDriveFolderId, getDriveFolderUrl } from "./services/folder-index";
 import { CloudStorageProvider } from './services/cloud-storage';
 
 interface DriveFile {
@@ -19,32 +74,6 @@ interface DriveFile {
   buffer?: Buffer;
 }
 
-interface ScanResult {
-  imageId: number;
-  similarity: number;
-  matched: boolean;
-  error?: string;
-  url?: string;
-  driveUrl?: string;
-}
-
-interface ScanJob {
-  id: number;
-  driveUrl: string;
-  status: string;
-  results: ScanResult[];
-  imageCount: number;
-  referenceImageId?: string;
-  createdAt: string;
-  driveType: string;
-}
-
-interface ContinuationToken {
-  referenceImageId: string;
-  nextIndex: number;
-  jobId: number;
-}
-
 // Cache for directory scan results
 interface DirectoryCache {
   imageCount: number;
@@ -61,22 +90,82 @@ const upload = multer({
   limits: { fileSize: 5 * 1024 * 1024 }, // 5MB limit
 });
 
+// ZIP archives are streamed to a temporary file instead of being buffered
+const archiveUpload = multer({
+  storage: multer.diskStorage({ destination: os.tmpdir() }),
+  limits: { fileSize: MAX_ZIP_UPLOAD_BYTES, files: 1 },
+  fileFilter: (_req, file, cb) => {
+    if (file.mimetype.includes("zip") || file.originalname.toLowerCase().endsWith(".zip")) {
+      cb(null, true);
+    } else {
+      cb(new Error("Only ZIP archives can be uploaded"));
+    }
+  },
+});
+
+// Response of an analysis answered at once by searching a face collection
+function toCompletedAnalysis(job: ScanJob) {
+  const results = job.results ?? [];
+  return {
+    ...job,
+    continuationToken: null,
+    processing: {
+      total: job.imageCount,
+      processed: results.length,
+      isComplete: true,
+      nextIndex: getNextImageIndex(results)
+    }
+  };
+}
+
 export function registerRoutes(app: Express): void {
-  app.post("/api/scan", async (req, res) => {
+  app.post("/api/scan", (req, res, next) => {
+    // Multipart requests may carry a ZIP archive, streamed to disk rather than memory
+    archiveUpload.single("archive")(req, res, (error: unknown) => {
+      if (error) {
+        console.error("Error receiving ZIP archive:", error);
+        return res.status(400).json({ error: (error as Error).message });
+      }
+      next();
+    });
+  }, async (req, res) => {
     try {
       console.log("Received /api/scan request with body:", {
         url: req.body.url,
-        hasGoogleApiKey: !!req.body.googleApiKey
+        hasGoogleApiKey: !!req.body.googleApiKey,
+        archive: req.file?.originalname
       });
-      
-      // Parse the URL but make GoogleApiKey optional
-      const { url, googleApiKey } = driveUrlSchema
-        .extend({
-          googleApiKey: z.string().optional(),
-        })
-        .parse(req.body);
 
-      const driveType = "gdrive";
+      let urls: string[];
+      let googleApiKey: string | undefined;
+      let scanOptions: ScanOptions | undefined;
+
+      if (req.file) {
+        // Serve the job from the extracted archive
+        cleanupExpiredArchives().catch((error) => console.error("Error cleaning up ZIP archives:", error));
+        const { archiveId } = await extractZipArchive(req.file.path);
+        urls = [`zip://${archiveId}`];
+      } else {
+        // Accept a list of sources, or a single URL from older clients
+        const body = Array.isArray(req.body.urls) ? req.body : { ...req.body, urls: [req.body.url] };
+
+        // Parse the URLs but make GoogleApiKey optional
+        let recursive: boolean | undefined;
+        let maxDepth: number | undefined;
+        ({ urls, googleApiKey, recursive, maxDepth } = sourceUrlsSchema
+          .extend({
+            googleApiKey: z.string().optional(),
+          })
+          .merge(scanOptionsSchema)
+          .parse(body));
+
+        urls = Array.from(new Set(urls));
+        if (recursive) {
+          scanOptions = { recursive, maxDepth };
+        }
+      }
+
+      const driveType = urls.length > 1 ? "multi" : getStorageType(urls[0]);
 
       // Check if environment variables are set
       const hasEnvGoogleApiKey = !!process.env.GOOGLE_DRIVE_API_KEY;
@@ -87,16 +176,14 @@ export function registerRoutes(app: Express): void {
       const apiKey = hasEnvGoogleApiKey ? process.env.GOOGLE_DRIVE_API_KEY : googleApiKey;
       console.log("Using API key from:", hasEnvGoogleApiKey ? "environment variable" : "request body");
 
-      if (!apiKey) {
-        throw new Error("Google Drive API key not configured. Please add it to environment variables or provide it in the request.");
-      }
-
-      const provider = createStorageProvider(url, apiKey);
+      const provider = createStorageProviderForSources(urls, apiKey, scanOptions);
       try {
-        const imageCount = await provider.scanDirectory(url);
+        const imageCount = await provider.scanDirectory(urls[0]);
         const job = await storage.createScanJob({
-          driveUrl: url,
+          driveUrl: urls[0],
+          sourceUrls: urls,
           driveType,
+          scanOptions,
           imageCount,
           status: "pending",
           createdAt: new Date().toISOString(),
@@ -104,8 +191,9 @@ export function registerRoutes(app: Express): void {
 
         return res.json({
           ...job,
-          hasEnvGoogleApiKey,
-          hasEnvAwsCredentials: hasEnvAwsAccessKeyId && hasEnvAwsSecretAccessKey
+          hasEnvGoogleApiKey: hasEnvGoogleApiKey || !urls.some(requiresGoogleApiKey),
+          // Engines that don't use AWS never need credentials from the client
+          hasEnvAwsCredentials: (hasEnvAwsAccessKeyId && hasEnvAwsSecretAccessKey) || !engineRequiresAwsCredentials()
         });
       } catch (error) {
         console.error("Error scanning directory:", error);
@@ -113,11 +201,19 @@ export function registerRoutes(app: Express): void {
       }
     } catch (error) {
       console.error("Error processing scan request:", error);
+      if (error instanceof StorageAccessError) {
+        return res.status(error.status).json({ error: error.message, code: error.code });
+      }
       res.status(400).json({ error: (error as Error).message });
+    } finally {
+      // The uploaded ZIP itself is no longer needed once extracted
+      if (req.file?.path) {
+        fs.unlink(req.file.path).catch(() => {});
+      }
     }
   });
 
-  app.post("/api/analyze/:jobId", upload.single("face"), async (req, res) => {
+  app.post("/api/analyze/:jobId", upload.array("face", MAX_REFERENCE_PHOTOS * MAX_PEOPLE_PER_ANALYSIS), async (req, res) => {
     try {
       const jobId = parseInt(req.params.jobId);
       
@@ -162,11 +258,7 @@ export function registerRoutes(app: Express): void {
         : googleApiKey?.trim();
       
       // Check required credentials immediately
-      if (!cleanGoogleApiKey) {
-        return res.status(400).json({ error: "Google Drive API key is required" });
-      }
-      
-      if (!cleanAwsAccessKeyId || !cleanAwsSecretAccessKey) {
+      if (engineRequiresAwsCredentials() && (!cleanAwsAccessKeyId || !cleanAwsSecretAccessKey)) {
         return res.status(400).json({ error: "AWS credentials are required" });
       }
 
@@ -176,11 +268,16 @@ export function registerRoutes(app: Express): void {
         return res.status(404).json({ error: "Job not found" });
       }
 
+      const sourceUrls = getJobSourceUrls(job);
+      if (sourceUrls.some(requiresGoogleApiKey) && !cleanGoogleApiKey) {
+        return res.status(400).json({ error: "Google Drive API key is required" });
+      }
+
       // Initialize provider early to reuse
-      const provider = createStorageProvider(job.driveUrl, cleanGoogleApiKey);
+      const provider = createStorageProviderForSources(sourceUrls, cleanGoogleApiKey, job.scanOptions);
 
       // Check directory cache or scan if needed
-      const cacheKey = `${job.driveUrl}`;
+      const cacheKey = `${sourceUrls.join("|")}|${JSON.stringify(job.scanOptions || {})}`;
       const cachedDir = directoryCache.get(cacheKey);
       let imageCount = job.imageCount;
 
@@ -209,70 +306,211 @@ export function registerRoutes(app: Express): void {
         imageCount = cachedDir.imageCount;
       }
 
-      // Parse continuation token if present or initialize state
-      let parsedToken = null;
-      let results = [];
+      // Verify the continuation token if present or initialize state
+      let results: ScanResult[] = [];
       let startIndex = 0;
-      let referenceImageId = null;
+      let referenceImageIds: string[] = [];
+      // Images found when the folder was listed to check its index, so it isn't listed twice
+      let listedImageCount: number | null = null;
       
-      try {
-        if (continuationToken) {
-          parsedToken = JSON.parse(continuationToken);
-          startIndex = parsedToken.nextIndex || 0;
-          referenceImageId = parsedToken.referenceImageId;
+      if (continuationToken) {
+        let state: ContinuationState;
+        try {
+          state = verifyContinuationToken(continuationToken, jobId);
+        } catch (tokenError) {
+          console.error("[API] Rejected continuation token:", tokenError);
+          if (tokenError instanceof ContinuationTokenError) {
+            return res.status(tokenError.status).json({ error: tokenError.message, code: tokenError.code });
+          }
+          return res.status(400).json({ error: "Invalid continuation token", code: "TOKEN_MALFORMED" });
+        }
+        startIndex = state.nextIndex;
+        referenceImageIds = state.referenceImageIds;
+        
+        // For continuation requests, reuse existing results
+        const existingJob = await storage.getScanJob(jobId);
+        if (existingJob?.results && Array.isArray(existingJob.results)) {
+          results = existingJob.results;
           
-          // For continuation requests, reuse existing results
-          const existingJob = await storage.getScanJob(jobId);
-          if (existingJob?.results && Array.isArray(existingJob.results)) {
-            results = existingJob.results;
-            
-            // Log the current results length to debug duplication issue
-            console.log(`[API] Existing results count: ${results.length}`);
-            
-            // Check for duplicate results by comparing imageId
-            const uniqueImageIds = new Set();
-            const uniqueResults = [];
-            
-            for (const result of results) {
-              if (!uniqueImageIds.has(result.imageId)) {
-                uniqueImageIds.add(result.imageId);
-                uniqueResults.push(result);
-              } else {
-                console.log(`[API] Found duplicate result for imageId: ${result.imageId}`);
-              }
+          // Log the current results length to debug duplication issue
+          console.log(`[API] Existing results count: ${results.length}`);
+          
+          // Check for duplicate results by comparing imageId
+          const uniqueImageIds = new Set();
+          const uniqueResults = [];
+          
+          for (const result of results) {
+            if (!uniqueImageIds.has(result.imageId)) {
+              uniqueImageIds.add(result.imageId);
+              uniqueResults.push(result);
+            } else {
+              console.log(`[API] Found duplicate result for imageId: ${result.imageId}`);
             }
+          }
+          
+          if (results.length !== uniqueResults.length) {
+            console.log(`[API] Removed ${results.length - uniqueResults.length} duplicate results. New count: ${uniqueResults.length}`);
+            // Use the deduplicated results
+            results = uniqueResults;
             
-            if (results.length !== uniqueResults.length) {
-              console.log(`[API] Removed ${results.length - uniqueResults.length} duplicate results. New count: ${uniqueResults.length}`);
-              // Use the deduplicated results
-              results = uniqueResults;
-              
-              // Update the storage with deduplicated results
-              await storage.updateScanJobResults(jobId, uniqueResults, existingJob.status);
-            }
+            // Update the storage with deduplicated results
+            await storage.updateScanJobResults(jobId, uniqueResults, existingJob.status);
           }
-        } else {
-          // First request needs face image
-          if (!req.file) {
-            return res.status(400).json({ error: "No face image provided for initial request" });
+        }
+      } else {
+        // First request needs at least one face image
+        const faceImages = (req.files as Express.Multer.File[] | undefined) ?? [];
+        if (faceImages.length === 0) {
+          return res.status(400).json({ error: "No face image provided for initial request" });
+        }
+
+        // Picking up an interrupted analysis (e.g. after a page reload) keeps
+        // its results and carries on from the first image without one
+        const canResume = job.status === "processing" || job.status === "paused" || job.status === "failed";
+        const isResuming = req.body.resume === "true" && canResume && Array.isArray(job.results);
+        // A finished job whose faces are in a collection can be searched again for someone else
+        const isSearchingAgain = job.status === "complete" && job.analysisOptions?.matchMode === "collection";
+
+        // Threshold, quality filter and people of this analysis; a resumed one keeps its own
+        let analysisOptions = isResuming ? job.analysisOptions : undefined;
+        if (!analysisOptions) {
+          const parsed = analysisOptionsSchema.omit({ indexJobId: true }).safeParse(req.body);
+          if (!parsed.success) {
+            return res.status(400).json({
+              error: parsed.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ")
+            });
           }
-          
-          // For initial requests, just store the reference image and return immediately
-          referenceImageId = "reference";
-          startIndex = 0;
+          analysisOptions = isSearchingAgain
+            ? { ...parsed.data, matchMode: "collection", indexJobId: job.analysisOptions?.indexJobId }
+            : parsed.data;
         }
-      } catch (tokenError) {
-        console.error("[API] Error parsing continuation token:", tokenError);
-        return res.status(400).json({ error: "Invalid continuation token format" });
+
+        const engine = createFaceComparisonEngine({
+          awsCredentials: cleanAwsAccessKeyId && cleanAwsSecretAccessKey
+            ? { accessKeyId: cleanAwsAccessKeyId, secretAccessKey: cleanAwsSecretAccessKey }
+            : undefined
+        });
+        if (analysisOptions.matchMode === "collection" && !supportsCollectionMode(engine)) {
+          return res.status(400).json({ error: `The ${engine.name} engine doesn't support collection mode` });
+        }
+
+        // The uploaded photos are those of each person in turn
+        const expectedCount = analysisOptions.people?.reduce((count, person) => count + person.referenceCount, 0);
+        if (expectedCount !== undefined ? faceImages.length !== expectedCount : faceImages.length > MAX_REFERENCE_PHOTOS) {
+          return res.status(400).json({
+            error: expectedCount !== undefined
+              ? `Expected ${expectedCount} face images for the people listed, got ${faceImages.length}`
+              : `At most ${MAX_REFERENCE_PHOTOS} face images can be provided for one person`
+          });
+        }
+
+        // Every photo needs a usable face before any image is compared with it
+        const choices = referenceCheckChoicesSchema.safeParse(req.body);
+        if (!choices.success) {
+          return res.status(400).json({
+            error: choices.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ")
+          });
+        }
+        let prepared;
+        try {
+          prepared = await prepareReferenceImages(
+            engine,
+            faceImages.map((image) => ({ data: image.buffer, mimeType: image.mimetype })),
+            choices.data,
+            analysisOptions.referenceCrops,
+          );
+        } catch (checkError) {
+          if (checkError instanceof ReferenceCheckError) {
+            return res.status(checkError.status).json({
+              error: checkError.message,
+              code: checkError.code,
+              checks: checkError.checks
+            });
+          }
+          console.error("[API] Error checking reference photos:", checkError);
+          return res.status(500).json({ error: "Failed to check the reference photos" });
+        }
+
+        // The faces picked on group photos are kept so a resumed analysis crops them the same way
+        if (prepared.crops.some((crop) => crop !== null)) {
+          analysisOptions = { ...analysisOptions, referenceCrops: prepared.crops };
+        }
+        if (analysisOptions !== job.analysisOptions) {
+          job.analysisOptions = analysisOptions;
+          await storage.updateJobAnalysisOptions(jobId, analysisOptions);
+        }
+        if (isResuming) {
+          results = job.results!;
+          startIndex = getNextImageIndex(results);
+          console.log(`[API] Resuming job ${jobId} from index ${startIndex}`);
+        }
+
+        // Searching again only takes one search per photo, so it is answered right away
+        if (isSearchingAgain) {
+          try {
+            results = await searchCollection(
+              engine,
+              getJobCollectionId(job.analysisOptions?.indexJobId ?? jobId),
+              prepared.images.map((image) => image.data),
+              analysisOptions,
+              job.results ?? [],
+            );
+          } catch (searchError) {
+            console.error("[API] Error searching the job's collection:", searchError);
+            return res.status(500).json({ error: "Failed to search the job's faces" });
+          }
+          const updatedJob = await storage.updateScanJobResults(jobId, results, "complete");
+          console.log(`[API] Searched job ${jobId} again`);
+          return res.json(toCompletedAnalysis(updatedJob));
+        }
+
+        // So is a Drive folder indexed before, as long as it hasn't changed since
+        const folderId = !isResuming && sourceUrls.length === 1 ? getDriveFolderId(sourceUrls[0]) : null;
+        if (folderId && supportsCollectionMode(engine) && provider.getFolderVersion) {
+          try {
+            const version = await provider.getFolderVersion();
+            listedImageCount = version.imageCount;
+            const folderIndex = await findUpToDateFolderIndex(folderId, job.scanOptions, provider, version);
+            if (folderIndex) {
+              const indexedOptions: typeof analysisOptions = {
+                ...analysisOptions,
+                matchMode: "collection",
+                indexJobId: folderIndex.job.id,
+              };
+              results = await searchCollection(
+                engine,
+                getJobCollectionId(folderIndex.job.id),
+                prepared.images.map((image) => image.data),
+                indexedOptions,
+                folderIndex.job.results!,
+              );
+
+              await storage.updateJobAnalysisOptions(jobId, indexedOptions);
+              await storage.updateJobImageCount(jobId, folderIndex.job.imageCount);
+              await storage.updateScanJobResults(jobId, [], "processing");
+              const updatedJob = await storage.updateScanJobResults(jobId, results, "complete");
+              publishJobEvent(jobId, { type: "status", status: "complete" });
+              console.log(`[API] Answered job ${jobId} from the index of folder ${folderId} (job ${folderIndex.job.id})`);
+              return res.json(toCompletedAnalysis(updatedJob));
+            }
+          } catch (indexError) {
+            // The images are compared as usual instead
+            console.error(`[API] Error searching the index of folder ${folderId}:`, indexError);
+          }
+        }
+
+        // Keep the reference images server-side so later batches only carry the token
+        cleanupExpiredReferenceImages().catch((error) => console.error("Error cleaning up reference images:", error));
+        referenceImageIds = await Promise.all(
+          prepared.images.map((image) => saveReferenceImage(image.data, image.mimeType))
+        );
       }
       
       // For the first request, just setup the initial state and return immediately
       if (!continuationToken) {
-        // Create the storage provider to ensure we can count the files
-        const provider = createStorageProvider(job.driveUrl, cleanGoogleApiKey);
-        
         try {
-          const imageCount = await provider.scanDirectory(job.driveUrl);
+          // Count the files, unless the folder was just listed to check its index
+          const imageCount = listedImageCount ?? await provider.scanDirectory(job.driveUrl);
           console.log(`[API] Found ${imageCount} images in the directory`);
           
           // Update the job record with the correct image count
@@ -281,46 +519,69 @@ export function registerRoutes(app: Express): void {
           job.imageCount = imageCount; // Update local reference too
         } catch (scanError) {
           console.error("Error scanning directory:", scanError);
+          if (scanError instanceof StorageAccessError) {
+            return res.status(scanError.status).json({ error: scanError.message, code: scanError.code });
+          }
           return res.status(500).json({ error: "Failed to scan Google Drive directory" });
         }
         
-        // Create continuation token for the first batch
-        const initialToken = JSON.stringify({
-          referenceImageId: referenceImageId,
-          nextIndex: 0,
-          jobId
-        });
-        
-        // Initialize job with empty results
-        await storage.updateScanJobResults(jobId, [], "processing");
+        // Initialize job with empty (or resumed) results
+        await storage.updateScanJobResults(jobId, results, "processing");
+
+        // With the background runner the server processes every batch and the
+        // client only polls the job; otherwise it gets a token for the next batch
+        let initialToken: string | null = null;
+        if (isBackgroundRunnerEnabled()) {
+          await jobWorker.enqueue(jobId, referenceImageIds, {
+            awsCredentials: !hasEnvAwsAccessKeyId && cleanAwsAccessKeyId && cleanAwsSecretAccessKey
+              ? { accessKeyId: cleanAwsAccessKeyId, secretAccessKey: cleanAwsSecretAccessKey }
+              : undefined,
+            googleApiKey: hasEnvGoogleApiKey ? undefined : cleanGoogleApiKey,
+          }, startIndex);
+        } else {
+          initialToken = createContinuationToken({ jobId, referenceImageIds, nextIndex: startIndex });
+        }
         
         // Return the initialization status with token for next request
         return res.json({
           ...job,
-          results: [],
+          status: "processing",
+          results,
           continuationToken: initialToken,
           processing: {
             total: job.imageCount, 
-            processed: 0,
+            processed: results.length,
             isComplete: false,
-            nextIndex: 0
+            nextIndex: startIndex
           }
         });
       }
       
-      // Prepare the reference image
-      let referenceImageBuffer: Buffer | null = null;
-      
-      if (referenceImageId === "reference") {
-        // This is the uploaded file from the first request
-        if (req.file && req.file.buffer) {
-          referenceImageBuffer = req.file.buffer;
-        } else {
-          // Special case: we lost the reference but have the jobId
-          return res.status(400).json({ 
-            error: "Reference image missing. Please restart the process." 
-          });
-        }
+      // A paused or cancelled job processes no more batches; a paused one keeps
+      // its token so the client can carry on from there after resuming
+      const currentStatus = (await storage.getScanJob(jobId))?.status;
+      if (currentStatus && HALTED_JOB_STATUSES.includes(currentStatus)) {
+        return res.json({
+          ...job,
+          status: currentStatus,
+          results,
+          continuationToken: currentStatus === "paused" ? continuationToken : null,
+          processing: {
+            total: imageCount,
+            processed: results.length,
+            isComplete: false,
+            nextIndex: startIndex
+          }
+        });
+      }
+
+      // Prepare the reference images; a job indexing a folder has none
+      const referenceImageBuffers = await loadReferenceImages(referenceImageIds);
+      if (!referenceImageBuffers) {
+        return res.status(410).json({ 
+          error: "Reference image expired. Please restart the process.",
+          code: "REFERENCE_EXPIRED"
+        });
       }
       
       // Check if we've used too much time already
@@ -339,133 +600,191 @@ export function registerRoutes(app: Express): void {
         });
       }
       
-      // Ensure we have a valid reference image at this point
-      if (!referenceImageBuffer) {
-        return res.status(400).json({ 
-          error: "Reference image buffer missing. Please restart the process." 
-        });
-      }
-      
-      // Process 10 images per batch for optimal performance (increased from 6)
-      const BATCH_SIZE = 10;
-      const IMAGE_SIZE = 's600'; // Reduced from s1000 to s600 for faster downloads while maintaining quality
-      
-      // Fetch multiple images in parallel for better performance
-      console.log(`[API] Fetching batch of ${BATCH_SIZE} images starting from index ${startIndex}`);
-      const imagesBatch = await provider.getImageBatch(startIndex, BATCH_SIZE, IMAGE_SIZE);
-      
-      // Process each image in the batch
-      const newResults = [];
-      const batchStartTime = Date.now();
-      
-      // Create Rekognition client with optimized settings
-      const rekognition = new RekognitionClient({
-        region: process.env.MY_AWS_REGION || "us-east-1",
-        credentials: {
-          accessKeyId: cleanAwsAccessKeyId,
-          secretAccessKey: cleanAwsSecretAccessKey
-        },
-        maxAttempts: 2 // Reduce retry attempts for faster failure
+      // Create the configured face comparison engine (Rekognition by default)
+      const engine: FaceComparisonEngine = createFaceComparisonEngine({
+        awsCredentials: cleanAwsAccessKeyId && cleanAwsSecretAccessKey
+          ? { accessKeyId: cleanAwsAccessKeyId, secretAccessKey: cleanAwsSecretAccessKey }
+          : undefined
       });
 
-      // Process images in parallel with controlled concurrency
-      const processingPromises = imagesBatch.map(async (image) => {
-        if (!referenceImageBuffer) return null;
-        
-        try {
-          const imageIndex = image.index as number;
-          console.log(`[API] Processing image ${imageIndex + 1}/${job.imageCount}`);
-          
-          const command = new CompareFacesCommand({
-            SourceImage: { Bytes: referenceImageBuffer },
-            TargetImage: { Bytes: image.buffer },
-            SimilarityThreshold: 70,
-            QualityFilter: 'LOW'  // Accept lower quality matches since we reduced image size
-          });
-          
-          const response = await rekognition.send(command);
-          const bestMatch = response.FaceMatches?.[0];
-          
-          return {
-            imageId: imageIndex + 1,
-            similarity: bestMatch?.Similarity || 0,
-            matched: !!bestMatch,
-            url: image.id ? `https://lh3.googleusercontent.com/d/${image.id}=${IMAGE_SIZE}` : undefined,
-            driveUrl: `https://drive.google.com/file/d/${image.id}/view`,
-          };
-        } catch (error) {
-          console.error(`[API] Error processing image ${image.index as number + 1}:`, error);
-          return {
-            imageId: (image.index as number) + 1,
-            similarity: 0,
-            matched: false,
-            error: error instanceof Error ? error.message : 'Unknown error',
-            url: image.id ? `https://lh3.googleusercontent.com/d/${image.id}=${IMAGE_SIZE}` : undefined,
-            driveUrl: `https://drive.google.com/file/d/${image.id}/view`,
-          };
-        }
+      const batch = await analyzeBatch({
+        jobId,
+        imageCount,
+        provider,
+        engine,
+        referenceImages: referenceImageBuffers,
+        analysisOptions: job.analysisOptions ?? DEFAULT_ANALYSIS_OPTIONS,
+        startIndex,
+        results,
+        timeoutMs: SAFE_TIMEOUT * TIMEOUT_WARNING,
       });
 
-      // Wait for all images to process or timeout
-      const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(() => reject(new Error('Batch timeout')), SAFE_TIMEOUT * TIMEOUT_WARNING);
-      });
+      // A job paused during its last batch still gets a token: resuming it completes the job
+      const nextToken = batch.status === "processing" || batch.status === "paused"
+        ? createContinuationToken({ jobId, referenceImageIds, nextIndex: batch.nextIndex })
+        : null;
 
-      try {
-        const processedResults = await Promise.race([
-          Promise.all(processingPromises),
-          timeoutPromise
-        ]) as (ScanResult | null)[];
+      return res.json({
+        ...job,
+        status: batch.status,
+        results: batch.results,
+        continuationToken: nextToken,
+        processing: {
+          total: imageCount,
+          processed: batch.results.length,
+          isComplete: batch.isComplete,
+          nextIndex: batch.nextIndex,
+          batchDuration: batch.batchDuration,
+          imagesPerBatch: batch.newResults.length
+        }
+      });
 
-        // Filter out null results and add to newResults
-        newResults.push(...processedResults.filter((r): r is ScanResult => r !== null));
-      } catch (error) {
-        console.log('[API] Batch processing interrupted due to timeout');
+    } catch (error) {
+      console.error("Analysis error:", error);
+      if (error instanceof InvalidJobStatusTransitionError) {
+        return res.status(error.status).json({ error: error.message, code: error.code });
       }
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
 
-      // Merge results and continue
-      const mergedResults = [...results];
-      for (const newResult of newResults) {
-        const existingIndex = mergedResults.findIndex(r => r.imageId === newResult.imageId);
-        if (existingIndex === -1) {
-          mergedResults.push(newResult);
-        } else {
-          mergedResults[existingIndex] = newResult;
-        }
+  /**
+   * Index the faces of a Drive folder once, in the collection of a new job, so
+   * that later analyses of the folder are answered with a search instead of
+   * downloading every image again. An index that is still up to date is kept.
+   */
+  app.post("/api/folders/:folderId/index", async (req, res) => {
+    try {
+      const folderId = req.params.folderId;
+      const parsed = z.object({
+        googleApiKey: z.string().optional(),
+        awsAccessKeyId: z.string().optional(),
+        awsSecretAccessKey: z.string().optional(),
+      })
+        .merge(scanOptionsSchema)
+        .merge(analysisOptionsSchema.pick({ qualityFilter: true }))
+        .safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: parsed.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ")
+        });
       }
+      const { recursive, maxDepth, qualityFilter } = parsed.data;
+      const scanOptions: ScanOptions | undefined = recursive ? { recursive, maxDepth } : undefined;
 
-      // Save progress
-      await storage.updateScanJobResults(jobId, mergedResults, "processing");
+      const hasEnvGoogleApiKey = !!process.env.GOOGLE_DRIVE_API_KEY;
+      const hasEnvAwsCredentials = !!(process.env.FIFY_AWS_ACCESS_KEY && process.env.FIFY_AWS_SECRET_KEY);
+      const googleApiKey = hasEnvGoogleApiKey ? process.env.GOOGLE_DRIVE_API_KEY : parsed.data.googleApiKey?.trim();
+      const awsAccessKeyId = process.env.FIFY_AWS_ACCESS_KEY || parsed.data.awsAccessKeyId?.trim();
+      const awsSecretAccessKey = process.env.FIFY_AWS_SECRET_KEY || parsed.data.awsSecretAccessKey?.trim();
+
+      if (engineRequiresAwsCredentials() && (!awsAccessKeyId || !awsSecretAccessKey)) {
+        return res.status(400).json({ error: "AWS credentials are required" });
+      }
+      const engine = createFaceComparisonEngine({
+        awsCredentials: awsAccessKeyId && awsSecretAccessKey
+          ? { accessKeyId: awsAccessKeyId, secretAccessKey: awsSecretAccessKey }
+          : undefined
+      });
+      if (!supportsCollectionMode(engine)) {
+        return res.status(400).json({ error: `The ${engine.name} engine can't index folders` });
+      }
 
-      // Calculate next batch
-      const lastProcessedIndex = Math.max(...newResults.map(r => r.imageId));
-      const isComplete = lastProcessedIndex >= imageCount;
+      const url = getDriveFolderUrl(folderId);
+      if (requiresGoogleApiKey(url) && !googleApiKey) {
+        return res.status(400).json({ error: "Google Drive API key is required" });
+      }
 
-      const nextToken = !isComplete ? JSON.stringify({
-        referenceImageId,
-        nextIndex: lastProcessedIndex,
-        jobId
-      }) : null;
+      const provider = createStorageProviderForSources([url], googleApiKey, scanOptions);
+      const imageCount = await provider.scanDirectory(url);
+      if (!provider.getFolderVersion) {
+        return res.status(400).json({ error: "This folder can't be indexed" });
+      }
+      const version = await provider.getFolderVersion();
 
-      const batchDuration = Date.now() - batchStartTime;
-      console.log(`[API] Batch processing completed in ${batchDuration}ms, processed ${newResults.length} images`);
+      const existing = await findUpToDateFolderIndex(folderId, scanOptions, provider, version);
+      if (existing) {
+        console.log(`[API] Index of folder ${folderId} (job ${existing.job.id}) is up to date`);
+        return res.json({
+          index: existing.index,
+          job: toJobSummary(existing.job),
+          upToDate: true,
+          continuationToken: null
+        });
+      }
 
-      return res.json({
-        ...job,
-        results: mergedResults,
-        continuationToken: nextToken,
-        processing: {
-          total: imageCount,
-          processed: mergedResults.length,
-          isComplete,
-          nextIndex: lastProcessedIndex,
-          batchDuration,
-          imagesPerBatch: newResults.length
-        }
+      // Indexing is a collection-mode analysis without reference photos
+      const created = await storage.createScanJob({
+        driveUrl: url,
+        sourceUrls: [url],
+        driveType: getStorageType(url),
+        scanOptions,
+        imageCount,
+        status: "pending",
+        createdAt: new Date().toISOString(),
       });
+      await storage.updateJobAnalysisOptions(created.id, {
+        ...DEFAULT_ANALYSIS_OPTIONS,
+        qualityFilter: qualityFilter ?? DEFAULT_ANALYSIS_OPTIONS.qualityFilter,
+        matchMode: "collection",
+      });
+      const job = await storage.updateScanJobResults(created.id, [], "processing");
+
+      // The folder's state before indexing, so a change made meanwhile makes the index stale
+      const index: FolderIndex = {
+        folderId,
+        jobId: job.id,
+        scanOptions,
+        imageCount: version.imageCount,
+        modifiedTime: version.modifiedTime,
+        fingerprint: version.fingerprint,
+        createdAt: job.createdAt,
+      };
+      await storage.saveFolderIndex(index);
+
+      let continuationToken: string | null = null;
+      if (isBackgroundRunnerEnabled()) {
+        await jobWorker.enqueue(job.id, [], {
+          awsCredentials: !hasEnvAwsCredentials && awsAccessKeyId && awsSecretAccessKey
+            ? { accessKeyId: awsAccessKeyId, secretAccessKey: awsSecretAccessKey }
+            : undefined,
+          googleApiKey: hasEnvGoogleApiKey ? undefined : googleApiKey,
+        });
+      } else {
+        continuationToken = createContinuationToken({ jobId: job.id, referenceImageIds: [], nextIndex: 0 });
+      }
 
+      console.log(`[API] Indexing folder ${folderId} in job ${job.id}`);
+      return res.status(202).json({ index, job: toJobSummary(job), upToDate: false, continuationToken });
     } catch (error) {
-      console.error("Analysis error:", error);
+      console.error("Error indexing folder:", error);
+      if (error instanceof StorageAccessError) {
+        return res.status(error.status).json({ error: error.message, code: error.code });
+      }
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Job history, newest first
+  app.get("/api/jobs", async (req, res) => {
+    try {
+      const parsed = jobListQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ") });
+      }
+
+      const query = parsed.data;
+      const { jobs, total } = await storage.listScanJobs(query);
+      const page: JobListPage = {
+        jobs: jobs.map(toJobSummary),
+        total,
+        page: query.page,
+        pageSize: query.pageSize,
+      };
+
+      return res.json(page);
+    } catch (error) {
+      console.error("Error listing jobs:", error);
       res.status(500).json({ error: (error as Error).message });
     }
   });
@@ -485,10 +804,25 @@ export function registerRoutes(app: Express): void {
       const hasEnvAwsAccessKeyId = !!process.env.FIFY_AWS_ACCESS_KEY;
       const hasEnvAwsSecretAccessKey = !!process.env.FIFY_AWS_SECRET_KEY;
       
+      // Progress of a running or paused analysis, for clients polling the job or
+      // picking it up again after a reload. With the background runner the
+      // server carries on by itself; otherwise the client drives every batch.
+      const results = Array.isArray(job.results) ? job.results : [];
+      const processing = job.status === "processing" || job.status === "paused"
+        ? {
+            total: job.imageCount,
+            processed: results.length,
+            isComplete: false,
+            nextIndex: getNextImageIndex(results),
+            background: isBackgroundRunnerEnabled(),
+          }
+        : undefined;
+
       return res.json({
         ...job,
+        processing,
         hasEnvGoogleApiKey,
-        hasEnvAwsCredentials: hasEnvAwsAccessKeyId && hasEnvAwsSecretAccessKey
+        hasEnvAwsCredentials: (hasEnvAwsAccessKeyId && hasEnvAwsSecretAccessKey) || !engineRequiresAwsCredentials()
       });
     } catch (error) {
       console.error("Error getting job:", error);
@@ -496,13 +830,175 @@ export function registerRoutes(app: Express): void {
     }
   });
 
+  // Pause, resume or cancel an analysis; batches already running finish first
+  const jobStatusActions: Record<string, JobStatus> = {
+    pause: "paused",
+    resume: "processing",
+    cancel: "cancelled",
+  };
+
+  app.post("/api/jobs/:jobId/:action(pause|resume|cancel)", async (req, res) => {
+    try {
+      const jobId = parseInt(req.params.jobId);
+      const status = jobStatusActions[req.params.action];
+      const job = await storage.getScanJob(jobId);
+
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      // Repeating the action is not a change, so it is refused like any other illegal one
+      if (job.status === status) {
+        throw new InvalidJobStatusTransitionError(job.status, status);
+      }
+
+      // Only the status changes, so a batch saved meanwhile keeps its results
+      const updatedJob = await storage.updateScanJobStatus(jobId, status);
+      publishJobEvent(jobId, { type: "status", status });
+      console.log(`[API] Job ${jobId} ${job.status} -> ${status}`);
+      if (status === "processing" && isBackgroundRunnerEnabled()) {
+        await jobWorker.resume(jobId);
+      }
+
+      return res.json(updatedJob);
+    } catch (error) {
+      console.error("Error changing job status:", error);
+      if (error instanceof InvalidJobStatusTransitionError) {
+        return res.status(error.status).json({ error: error.message, code: error.code });
+      }
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Delete a job, along with the face collection of a job analyzed in collection mode
+  app.delete("/api/jobs/:jobId", async (req, res) => {
+    try {
+      const jobId = parseInt(req.params.jobId);
+      const job = await storage.getScanJob(jobId);
+
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      // Its batches would keep writing to it
+      if (job.status === "processing") {
+        return res.status(409).json({
+          error: "Pause or cancel the analysis before deleting the job",
+          code: "JOB_RUNNING"
+        });
+      }
+
+      // Jobs answered from this job's folder index search its collection
+      const dependentJobIds = await storage.listJobIdsUsingIndex(jobId);
+      if (dependentJobIds.length > 0) {
+        return res.status(409).json({
+          error: `Delete the jobs answered from this job's folder index first (${dependentJobIds.join(", ")})`,
+          code: "INDEX_IN_USE",
+          jobIds: dependentJobIds
+        });
+      }
+
+      // A job answered from a folder index shares that index's collection, which stays
+      if (job.analysisOptions?.matchMode === "collection" && !job.analysisOptions.indexJobId) {
+        const awsAccessKeyId = process.env.FIFY_AWS_ACCESS_KEY || req.body?.awsAccessKeyId?.trim();
+        const awsSecretAccessKey = process.env.FIFY_AWS_SECRET_KEY || req.body?.awsSecretAccessKey?.trim();
+        if (engineRequiresAwsCredentials() && (!awsAccessKeyId || !awsSecretAccessKey)) {
+          return res.status(400).json({
+            error: "AWS credentials are required to delete the job's face collection",
+            code: "AWS_CREDENTIALS_REQUIRED"
+          });
+        }
+
+        const engine = createFaceComparisonEngine({
+          awsCredentials: awsAccessKeyId && awsSecretAccessKey
+            ? { accessKeyId: awsAccessKeyId, secretAccessKey: awsSecretAccessKey }
+            : undefined
+        });
+        await engine.deleteCollection?.(getJobCollectionId(jobId));
+      }
+
+      await storage.deleteScanJob(jobId);
+      console.log(`[API] Deleted job ${jobId}`);
+
+      return res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting job:", error);
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Stream analysis progress as Server-Sent Events (see attachJobEventsWebSocket for the WebSocket variant)
+  app.get("/api/jobs/:jobId/events", async (req, res) => {
+    try {
+      const jobId = parseInt(req.params.jobId);
+      let started = false;
+
+      const stop = await streamJobEvents(jobId, {
+        send: (event) => {
+          if (!started) {
+            started = true;
+            res.writeHead(200, {
+              "Content-Type": "text/event-stream",
+              "Cache-Control": "no-cache",
+              "Connection": "keep-alive",
+              "X-Accel-Buffering": "no",
+            });
+          }
+          res.write(`data: ${JSON.stringify(event)}\n\n`);
+        },
+        heartbeat: () => res.write(": heartbeat\n\n"),
+        close: () => res.end(),
+      });
+
+      if (!stop) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      req.on("close", stop);
+    } catch (error) {
+      console.error("Error streaming job events:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: (error as Error).message });
+      } else {
+        res.end();
+      }
+    }
+  });
+
+  // Serve a job image for providers without public links
+  app.get("/api/jobs/:jobId/images/:imageId", async (req, res) => {
+    try {
+      const jobId = parseInt(req.params.jobId);
+      const job = await storage.getScanJob(jobId);
+
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      const provider = createStorageProviderForSources(getJobSourceUrls(job), process.env.GOOGLE_DRIVE_API_KEY, job.scanOptions);
+      const image = await provider.getSingleImage(req.params.imageId);
+
+      if (!image) {
+        return res.status(404).json({ error: "Image not found" });
+      }
+
+      res.setHeader("Content-Type", image.mimeType || "application/octet-stream");
+      res.setHeader("Cache-Control", "private, max-age=3600");
+      return res.send(image.buffer);
+    } catch (error) {
+      console.error("Error serving job image:", error);
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
   // Add an environment check endpoint
   app.get("/api/env-check", (req, res) => {
     const envStatus = {
       googleApiKey: !!process.env.GOOGLE_DRIVE_API_KEY,
       awsAccessKeyId: !!process.env.FIFY_AWS_ACCESS_KEY, 
       awsSecretAccessKey: !!process.env.FIFY_AWS_SECRET_KEY,
-      myAwsRegion: process.env.MY_AWS_REGION || "us-east-1"
+      myAwsRegion: process.env.MY_AWS_REGION || "us-east-1",
+      faceEngine: getConfiguredEngineName(),
+      fixtureMode: isFixtureMode()
     };
     
     console.log("Environment check requested:", envStatus);
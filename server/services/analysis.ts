@@ -0,0 +1,308 @@
+import {
+  applySimilarityThreshold,
+  type AnalysisOptions,
+  type FaceMatch,
+  type JobStatus,
+  type ScanResult,
+} from "@shared/schema";
+import { storage } from "../storage";
+import {
+  type CloudImage,
+  type CloudStorageProvider,
+  type ImageLinks,
+} from "./cloud-storage";
+import { type FaceComparisonEngine, type FaceComparisonResult } from "./face-comparison";
+import { publishJobEvent } from "./job-events";
+
+// Process 10 images per batch for optimal performance (increased from 6)
+export const BATCH_SIZE = 10;
+export const IMAGE_SIZE = 's600'; // Reduced from s1000 to s600 for faster downloads while maintaining quality
+
+// Faces are compared without a threshold so every similarity is kept; the job's
+// threshold is applied afterwards and can be changed later without comparing again
+const RAW_SIMILARITY_THRESHOLD = 0;
+
+// Rekognition collections are shared by everything in the AWS account, so the
+// app's are told apart by this prefix
+const COLLECTION_PREFIX = process.env.FIFY_COLLECTION_PREFIX?.trim() || "fify-job-";
+
+// Collection holding the faces of a job analyzed in collection mode
+export function getJobCollectionId(jobId: number): string {
+  return `${COLLECTION_PREFIX}${jobId}`;
+}
+
+export function supportsCollectionMode(engine: FaceComparisonEngine): boolean {
+  return !!(engine.indexFaces && engine.searchFaces && engine.deleteCollection);
+}
+
+// Person of each reference photo, when several people are searched for
+function getReferencePeople(analysisOptions: AnalysisOptions): number[] | undefined {
+  return analysisOptions.people?.flatMap((person, personIndex) =>
+    Array<number>(person.referenceCount).fill(personIndex)
+  );
+}
+
+export interface AnalysisBatchOptions {
+  jobId: number;
+  imageCount: number;
+  provider: CloudStorageProvider;
+  engine: FaceComparisonEngine;
+  // Photos of the people searched for, in the order of analysisOptions.people;
+  // each image is downloaded once and compared with all of them
+  referenceImages: Buffer[];
+  analysisOptions: AnalysisOptions;
+  startIndex: number;
+  // Results of earlier batches, merged with this batch's results
+  results: ScanResult[];
+  // Give up on the batch (keeping none of its results) after this long
+  timeoutMs: number;
+}
+
+export interface AnalysisBatchResult {
+  results: ScanResult[];
+  newResults: ScanResult[];
+  nextIndex: number;
+  isComplete: boolean;
+  // Status the job was saved with: a job paused or cancelled meanwhile keeps it, even when complete
+  status: JobStatus;
+  batchDuration: number;
+}
+
+// Links for a result, falling back to the job image endpoint for providers
+// that can't link to their files directly (fixture and local folders)
+export async function getResultLinks(
+  provider: CloudStorageProvider,
+  image: CloudImage,
+  jobId: number,
+  imageSize: string,
+): Promise<ImageLinks> {
+  const links = await provider.getImageLinks(image, imageSize);
+  if (links) return links;
+
+  const appUrl = image.id
+    ? `/api/jobs/${jobId}/images/${encodeURIComponent(image.id)}`
+    : undefined;
+  return { url: appUrl, driveUrl: appUrl };
+}
+
+/**
+ * Merge the comparisons of one image with each reference photo into its list
+ * of faces, best first. A face is reported with the same bounding box for
+ * every reference, so it keeps the similarity of the reference it is closest
+ * to (and the person that reference belongs to, if any); faces the engine
+ * couldn't compare count as not similar at all.
+ */
+function mergeComparisons(comparisons: FaceComparisonResult[], referencePeople?: number[]): FaceMatch[] {
+  const faces = new Map<string, FaceMatch>();
+  let uncomparedCount = 0;
+
+  comparisons.forEach((comparison, referenceIndex) => {
+    comparison.matches.forEach((match, position) => {
+      const key = match.boundingBox ? JSON.stringify(match.boundingBox) : `#${position}`;
+      const existing = faces.get(key);
+      if (!existing || match.similarity > existing.similarity) {
+        faces.set(key, { ...match, referenceIndex, personIndex: referencePeople?.[referenceIndex] });
+      }
+    });
+    uncomparedCount = Math.max(uncomparedCount, comparison.unmatchedFaceCount);
+  });
+
+  return [
+    ...Array.from(faces.values()).sort((a, b) => b.similarity - a.similarity),
+    ...Array.from({ length: uncomparedCount }, () => ({ similarity: 0 })),
+  ];
+}
+
+// Store the faces of one image in the collection, none of them matched yet
+async function indexImage(
+  engine: FaceComparisonEngine,
+  collectionId: string,
+  image: Buffer,
+  imageId: number,
+  analysisOptions: AnalysisOptions,
+): Promise<FaceMatch[]> {
+  const indexed = await engine.indexFaces!(collectionId, image, String(imageId), {
+    qualityFilter: analysisOptions.qualityFilter,
+  });
+  return [
+    ...indexed.faces.map(({ faceId, boundingBox }) => ({ similarity: 0, boundingBox, faceId })),
+    ...Array.from({ length: indexed.unindexedFaceCount }, () => ({ similarity: 0 })),
+  ];
+}
+
+/**
+ * Give the faces of a job indexed in collection mode their similarity to the
+ * reference photos: one search per photo, whatever the number of images. Also
+ * used to search a finished job again for someone else, and to answer an
+ * analysis from the index of its folder.
+ */
+export async function searchCollection(
+  engine: FaceComparisonEngine,
+  collectionId: string,
+  referenceImages: Buffer[],
+  analysisOptions: AnalysisOptions,
+  results: ScanResult[],
+): Promise<ScanResult[]> {
+  const referencePeople = getReferencePeople(analysisOptions);
+  const searches = await Promise.all(referenceImages.map((referenceImage) =>
+    engine.searchFaces!(collectionId, referenceImage, {
+      similarityThreshold: RAW_SIMILARITY_THRESHOLD,
+      qualityFilter: analysisOptions.qualityFilter,
+    })
+  ));
+
+  // Best reference photo for every stored face
+  const bestMatches = new Map<string, FaceMatch>();
+  searches.forEach((matches, referenceIndex) => {
+    for (const match of matches) {
+      const existing = bestMatches.get(match.faceId);
+      if (!existing || match.similarity > existing.similarity) {
+        bestMatches.set(match.faceId, {
+          similarity: match.similarity,
+          referenceIndex,
+          personIndex: referencePeople?.[referenceIndex],
+        });
+      }
+    }
+  });
+
+  return results.map((result) => {
+    if (!result.faces) return result;
+
+    const faces = result.faces
+      .map(({ boundingBox, faceId }) => ({
+        similarity: 0,
+        boundingBox,
+        faceId,
+        ...(faceId ? bestMatches.get(faceId) : undefined),
+      }))
+      .sort((a, b) => b.similarity - a.similarity);
+    return applySimilarityThreshold({
+      ...result,
+      similarity: faces[0]?.similarity || 0,
+      referenceIndex: faces[0]?.referenceIndex,
+      faces,
+    }, analysisOptions.similarityThreshold);
+  });
+}
+
+/**
+ * Compare the next batch of images against the reference, merge the results
+ * into the job and save them. Used by both the client-driven continuation
+ * requests and the background worker.
+ */
+export async function analyzeBatch(options: AnalysisBatchOptions): Promise<AnalysisBatchResult> {
+  const { jobId, imageCount, provider, engine, referenceImages, analysisOptions, startIndex } = options;
+  const referencePeople = getReferencePeople(analysisOptions);
+  const collectionId = analysisOptions.matchMode === "collection" ? getJobCollectionId(jobId) : null;
+
+  // Fetch multiple images in parallel for better performance
+  console.log(`[API] Fetching batch of ${BATCH_SIZE} images starting from index ${startIndex}`);
+  const imagesBatch = await provider.getImageBatch(startIndex, BATCH_SIZE, IMAGE_SIZE);
+
+  // Process each image in the batch
+  const newResults: ScanResult[] = [];
+  const batchStartTime = Date.now();
+
+  const compareImage = async (image: CloudImage): Promise<ScanResult> => {
+    try {
+      const imageIndex = image.index as number;
+      console.log(`[API] Processing image ${imageIndex + 1}/${imageCount}`);
+
+      // In collection mode the faces are only stored here; they get their
+      // similarities once the whole job is indexed
+      const faces = collectionId
+        ? await indexImage(engine, collectionId, image.buffer, imageIndex + 1, analysisOptions)
+        : mergeComparisons(await Promise.all(referenceImages.map((referenceImage) =>
+          engine.compareFaces(referenceImage, image.buffer, {
+            similarityThreshold: RAW_SIMILARITY_THRESHOLD,
+            qualityFilter: analysisOptions.qualityFilter,
+          })
+        )), referencePeople);
+
+      return applySimilarityThreshold({
+        imageId: imageIndex + 1,
+        similarity: faces[0]?.similarity || 0,
+        matched: false,
+        referenceIndex: faces[0]?.referenceIndex,
+        faces,
+        folderPath: image.folderPath,
+        sourceIndex: image.sourceIndex,
+        sourceUrl: image.sourceUrl,
+        ...(await getResultLinks(provider, image, jobId, IMAGE_SIZE)),
+      }, analysisOptions.similarityThreshold);
+    } catch (error) {
+      console.error(`[API] Error processing image ${image.index as number + 1}:`, error);
+      return {
+        imageId: (image.index as number) + 1,
+        similarity: 0,
+        matched: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        folderPath: image.folderPath,
+        sourceIndex: image.sourceIndex,
+        sourceUrl: image.sourceUrl,
+        ...(await getResultLinks(provider, image, jobId, IMAGE_SIZE)),
+      };
+    }
+  };
+
+  // Process images in parallel with controlled concurrency
+  const processingPromises = imagesBatch.map(compareImage);
+
+  // Wait for all images to process or timeout
+  let timeoutId: NodeJS.Timeout | undefined;
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => reject(new Error('Batch timeout')), options.timeoutMs);
+  });
+
+  try {
+    newResults.push(...await Promise.race([
+      Promise.all(processingPromises),
+      timeoutPromise
+    ]));
+  } catch (error) {
+    console.log('[API] Batch processing interrupted due to timeout');
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  // Merge results and continue
+  let mergedResults = [...options.results];
+  for (const newResult of newResults) {
+    const existingIndex = mergedResults.findIndex(r => r.imageId === newResult.imageId);
+    if (existingIndex === -1) {
+      mergedResults.push(newResult);
+    } else {
+      mergedResults[existingIndex] = newResult;
+    }
+  }
+
+  // Calculate next batch; an interrupted batch is retried from the same index
+  const nextIndex = newResults.length > 0
+    ? Math.max(...newResults.map(r => r.imageId))
+    : startIndex;
+  const isComplete = nextIndex >= imageCount;
+
+  // A folder index is built without reference photos; it is only searched by later analyses
+  if (collectionId && isComplete && referenceImages.length > 0) {
+    mergedResults = await searchCollection(engine, collectionId, referenceImages, analysisOptions, mergedResults);
+  }
+
+  // Save progress, keeping a pause or cancel that came in while the batch ran
+  const { status } = await storage.saveScanJobProgress(jobId, mergedResults, isComplete ? "complete" : "processing");
+
+  // Only saved results are streamed; those of a batch that timed out are computed again on retry
+  const newImageIds = new Set(newResults.map((result) => result.imageId));
+  for (const result of mergedResults) {
+    if (newImageIds.has(result.imageId)) publishJobEvent(jobId, { type: "result", result });
+  }
+  publishJobEvent(jobId, { type: "progress", processed: mergedResults.length, total: imageCount });
+  if (status === "complete") {
+    publishJobEvent(jobId, { type: "status", status: "complete" });
+  }
+
+  const batchDuration = Date.now() - batchStartTime;
+  console.log(`[API] Batch processing completed in ${batchDuration}ms, processed ${newResults.length} images`);
+
+  return { results: mergedResults, newResults, nextIndex, isComplete, status, batchDuration };
+}
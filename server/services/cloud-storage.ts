@@ -1,8 +1,55 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import {
+  S3Client,
+  ListObjectsV2Command,
+  GetObjectCommand,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { type ScanOptions } from "@shared/schema";
+import { getFixtureDir } from "./fixtures";
+import { getArchiveFolder, getArchivesDir } from "./zip-archive";
+
 export interface CloudImage {
   id?: string;
   name?: string;
   buffer: Buffer;
   index?: number; // Index in the original file list
+  mimeType?: string;
+  folderPath?: string; // Subfolder relative to the scanned folder, "" for the folder itself
+  sourceIndex?: number; // Source the image came from in multi-source jobs
+  sourceUrl?: string;
+}
+
+const DEFAULT_MAX_DEPTH = 5;
+const MAX_SCAN_DEPTH = 10;
+
+// The source exists but can't be read with the given access, e.g. a private Drive folder
+export class StorageAccessError extends Error {
+  status = 403;
+
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = "StorageAccessError";
+  }
+}
+
+// Links shown for a result: a viewable image and the file in its original storage
+export interface ImageLinks {
+  url?: string;
+  driveUrl?: string;
+}
+
+// State of a folder's listing, compared to tell whether a folder index is still up to date
+export interface FolderVersion {
+  imageCount: number;
+  // Latest modification time of its images (ISO timestamp), null for an empty folder
+  modifiedTime: string | null;
+  // Hash of every image's id, subfolder and modification time, so that a file replaced,
+  // moved in or moved out changes it even when the count and latest time stay the same
+  fingerprint: string;
 }
 
 export interface CloudStorageProvider {
@@ -10,85 +57,611 @@ export interface CloudStorageProvider {
   getImages: (startIndex: number, count: number, imageSize?: string) => Promise<CloudImage[]>;
   getSingleImage: (imageId: string, imageSize?: string) => Promise<CloudImage | null>;
   getImageBatch: (startIndex: number, count: number, imageSize?: string) => Promise<CloudImage[]>;
+  // Returns null when the image is not publicly reachable and must be served by the app
+  getImageLinks: (image: CloudImage, imageSize?: string) => Promise<ImageLinks | null>;
+  // Left out by providers that can't tell when their images changed; their folders can't be indexed
+  getFolderVersion?: () => Promise<FolderVersion>;
 }
 
 export function createStorageProvider(
   url: string,
-  apiKey: string,
+  apiKey?: string,
+  options: ScanOptions = {},
 ): CloudStorageProvider {
+  // Uploaded archives are always served from their extracted folder
+  if (url.startsWith("zip://")) {
+    return new ZipArchiveStorageProvider(url);
+  }
+
+  // Fixture mode serves every other job from the local sample folder
+  const fixtureDir = getFixtureDir();
+  if (fixtureDir) {
+    return new FixtureStorageProvider(fixtureDir);
+  }
+
   if (url.includes("drive.google.com")) {
-    return new GoogleStorageProvider(url, apiKey);
+    if (!apiKey) {
+      throw new Error("Google Drive API key not configured. Please add it to environment variables or provide it in the request.");
+    }
+    return new GoogleStorageProvider(url, apiKey, options);
+  }
+
+  if (url.startsWith("file://")) {
+    return LocalFolderStorageProvider.fromUrl(url);
+  }
+
+  if (url.startsWith("s3://")) {
+    return new S3StorageProvider(url);
   }
 
   throw new Error("Unsupported storage provider");
 }
 
+// Provider for one or more sources; several sources are presented as one list
+export function createStorageProviderForSources(
+  urls: string[],
+  apiKey?: string,
+  options: ScanOptions = {},
+): CloudStorageProvider {
+  if (urls.length === 1) {
+    return createStorageProvider(urls[0], apiKey, options);
+  }
+
+  return new CompositeStorageProvider(
+    urls.map((url) => ({ url, provider: createStorageProvider(url, apiKey, options) })),
+  );
+}
+
+// Short storage type recorded on the job
+export function getStorageType(url: string): string {
+  if (url.startsWith("zip://")) return "zip";
+  if (getFixtureDir()) return "fixture";
+  if (url.startsWith("file://")) return "local";
+  if (url.startsWith("s3://")) return "s3";
+  return "gdrive";
+}
+
+// Whether scanning the given URL needs a Google Drive API key
+export function requiresGoogleApiKey(url: string): boolean {
+  return !getFixtureDir() && url.includes("drive.google.com");
+}
+
+function toFolderVersion(files: { id: string; folderPath?: string; modifiedTime?: string }[]): FolderVersion {
+  // Sorted, since providers don't promise a stable listing order
+  const entries = files
+    .map((file) => JSON.stringify([file.id, file.folderPath ?? "", file.modifiedTime ?? ""]))
+    .sort();
+  return {
+    imageCount: files.length,
+    modifiedTime: files.reduce<string | null>((latest, { modifiedTime }) =>
+      modifiedTime && (!latest || modifiedTime > latest) ? modifiedTime : latest, null),
+    fingerprint: crypto.createHash("sha256").update(entries.join("\n")).digest("hex"),
+  };
+}
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+};
+
+// Allow-listed roots for file:// sources, from FIFY_LOCAL_ROOTS (comma separated)
+export function getAllowedLocalRoots(): string[] {
+  return (process.env.FIFY_LOCAL_ROOTS || "")
+    .split(",")
+    .map((root) => root.trim())
+    .filter(Boolean)
+    .map((root) => path.resolve(root));
+}
+
+function isWithin(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+}
+
+/**
+ * Serves images from a folder on the server's filesystem (e.g. a mounted NAS).
+ * The folder must resolve, symlinks included, inside one of the allowed roots.
+ * Images are listed in file name order so every run sees the same indexes.
+ */
+export class LocalFolderStorageProvider implements CloudStorageProvider {
+  protected folder: string;
+  private allowedRoots: string[];
+  private resolvedFolder: string | null = null;
+  private listFiles: { id: string; name: string }[] = [];
+
+  constructor(folder: string, allowedRoots: string[] = getAllowedLocalRoots()) {
+    this.folder = path.resolve(folder);
+    this.allowedRoots = allowedRoots;
+  }
+
+  static fromUrl(url: string): LocalFolderStorageProvider {
+    let folder: string;
+    try {
+      folder = fileURLToPath(url);
+    } catch (error) {
+      throw new Error("Invalid local folder URL");
+    }
+    return new LocalFolderStorageProvider(folder);
+  }
+
+  async scanDirectory(_url: string): Promise<number> {
+    const folder = await this.resolveFolder();
+
+    try {
+      const entries = await fs.readdir(folder, { withFileTypes: true });
+      this.listFiles = entries
+        .filter((entry) => entry.isFile() && IMAGE_MIME_TYPES[path.extname(entry.name).toLowerCase()])
+        .map((entry) => ({ id: entry.name, name: entry.name }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+      console.log(`Found ${this.listFiles.length} images in local folder`);
+      return this.listFiles.length;
+    } catch (error) {
+      console.error("Error listing local files:", error);
+      throw new Error(
+        `Failed to scan local directory: ${(error as Error).message || "Unknown error"}`,
+      );
+    }
+  }
+
+  async getImages(startIndex: number, count: number): Promise<CloudImage[]> {
+    return this.getImageBatch(startIndex, count);
+  }
+
+  async getSingleImage(imageId: string): Promise<CloudImage | null> {
+    // Only files from the listing can be served, which also rules out "../" ids
+    const files = await this.getFiles();
+    const file = files.find((f) => f.id === imageId);
+    if (!file) return null;
+
+    try {
+      return await this.readImage(file);
+    } catch (error) {
+      console.error(`Error reading local image ${imageId}:`, error);
+      return null;
+    }
+  }
+
+  async getImageBatch(startIndex: number, count: number): Promise<CloudImage[]> {
+    try {
+      const files = await this.getFiles();
+      const batch = files.slice(startIndex, startIndex + count);
+
+      return Promise.all(batch.map(async (file, index) => ({
+        ...(await this.readImage(file)),
+        index: startIndex + index
+      })));
+    } catch (error) {
+      console.error('Error getting local image batch:', error);
+      return [];
+    }
+  }
+
+  async getImageLinks(): Promise<ImageLinks | null> {
+    return null;
+  }
+
+  async getFolderVersion(): Promise<FolderVersion> {
+    const folder = await this.resolveFolder();
+    const files = await this.getFiles();
+    return toFolderVersion(await Promise.all(files.map(async (file) => ({
+      id: file.id,
+      modifiedTime: (await fs.stat(path.join(folder, file.name))).mtime.toISOString(),
+    }))));
+  }
+
+  private async resolveFolder(): Promise<string> {
+    if (this.resolvedFolder) return this.resolvedFolder;
+
+    let realFolder: string;
+    try {
+      realFolder = await fs.realpath(this.folder);
+    } catch (error) {
+      throw new Error(`Local folder not found: ${this.folder}`);
+    }
+
+    const realRoots = await Promise.all(
+      this.allowedRoots.map((root) => fs.realpath(root).catch(() => root)),
+    );
+    if (!realRoots.some((root) => isWithin(root, realFolder))) {
+      throw new Error(`Local folder is not in the allowed list: ${this.folder}`);
+    }
+
+    this.resolvedFolder = realFolder;
+    return realFolder;
+  }
+
+  private async readImage(file: { id: string; name: string }): Promise<CloudImage> {
+    const folder = await this.resolveFolder();
+    return {
+      ...file,
+      buffer: await fs.readFile(path.join(folder, file.name)),
+      mimeType: IMAGE_MIME_TYPES[path.extname(file.name).toLowerCase()]
+    };
+  }
+
+  private async getFiles(): Promise<{ id: string; name: string }[]> {
+    if (this.listFiles.length === 0) {
+      await this.scanDirectory(this.folder);
+    }
+    return this.listFiles;
+  }
+}
+
+// Serves the images extracted from an uploaded ZIP (zip://<archiveId>)
+export class ZipArchiveStorageProvider extends LocalFolderStorageProvider {
+  constructor(url: string) {
+    super(getArchiveFolder(url.slice("zip://".length)), [getArchivesDir()]);
+  }
+}
+
+// Serves the sample images of fixture mode; the fixture folder is its only allowed root
+export class FixtureStorageProvider extends LocalFolderStorageProvider {
+  constructor(dir: string) {
+    super(dir, [dir]);
+  }
+}
+
+interface CompositeSource {
+  url: string;
+  provider: CloudStorageProvider;
+  offset: number; // Index of the source's first image in the combined list
+  count: number;
+}
+
+/**
+ * Presents several sources as one indexed image list: the images of the first
+ * source, then those of the second, and so on. Image ids are prefixed with the
+ * source index ("1:<id>") so they stay unique across sources.
+ */
+export class CompositeStorageProvider implements CloudStorageProvider {
+  private sources: CompositeSource[];
+  private scanned = false;
+
+  constructor(sources: { url: string; provider: CloudStorageProvider }[]) {
+    this.sources = sources.map((source) => ({ ...source, offset: 0, count: 0 }));
+  }
+
+  async scanDirectory(_url: string): Promise<number> {
+    let offset = 0;
+    for (const source of this.sources) {
+      source.count = await source.provider.scanDirectory(source.url);
+      source.offset = offset;
+      offset += source.count;
+    }
+
+    this.scanned = true;
+    console.log(`Found ${offset} images across ${this.sources.length} sources`);
+    return offset;
+  }
+
+  async getImages(startIndex: number, count: number, imageSize?: string): Promise<CloudImage[]> {
+    return this.getImageBatch(startIndex, count, imageSize);
+  }
+
+  async getSingleImage(imageId: string, imageSize?: string): Promise<CloudImage | null> {
+    const parsed = this.parseImageId(imageId);
+    if (!parsed) return null;
+
+    const image = await this.sources[parsed.sourceIndex].provider.getSingleImage(parsed.id, imageSize);
+    return image ? this.toCompositeImage(image, parsed.sourceIndex) : null;
+  }
+
+  async getImageBatch(startIndex: number, count: number, imageSize?: string): Promise<CloudImage[]> {
+    if (!this.scanned) {
+      await this.scanDirectory("");
+    }
+
+    // A batch may span the end of one source and the start of the next
+    const endIndex = startIndex + count;
+    const images: CloudImage[] = [];
+
+    for (let sourceIndex = 0; sourceIndex < this.sources.length; sourceIndex++) {
+      const source = this.sources[sourceIndex];
+      const from = Math.max(startIndex, source.offset);
+      const to = Math.min(endIndex, source.offset + source.count);
+      if (from >= to) continue;
+
+      const batch = await source.provider.getImageBatch(from - source.offset, to - from, imageSize);
+      images.push(...batch.map((image) => this.toCompositeImage(image, sourceIndex)));
+    }
+
+    return images;
+  }
+
+  async getImageLinks(image: CloudImage, imageSize?: string): Promise<ImageLinks | null> {
+    const parsed = image.id ? this.parseImageId(image.id) : null;
+    if (!parsed) return {};
+
+    return this.sources[parsed.sourceIndex].provider.getImageLinks({ ...image, id: parsed.id }, imageSize);
+  }
+
+  private toCompositeImage(image: CloudImage, sourceIndex: number): CloudImage {
+    const source = this.sources[sourceIndex];
+    return {
+      ...image,
+      id: image.id !== undefined ? `${sourceIndex}:${image.id}` : undefined,
+      index: image.index !== undefined ? source.offset + image.index : undefined,
+      sourceIndex,
+      sourceUrl: source.url,
+    };
+  }
+
+  private parseImageId(imageId: string): { sourceIndex: number; id: string } | null {
+    const separator = imageId.indexOf(":");
+    const sourceIndex = parseInt(imageId.slice(0, separator), 10);
+    if (separator === -1 || !this.sources[sourceIndex]) return null;
+
+    return { sourceIndex, id: imageId.slice(separator + 1) };
+  }
+}
+
+/**
+ * S3 settings from the environment. FIFY_S3_ENDPOINT points the client at an
+ * S3-compatible store such as a local MinIO (http://localhost:9000).
+ */
+export function getS3Config() {
+  const endpoint = process.env.FIFY_S3_ENDPOINT?.trim() || undefined;
+
+  return {
+    endpoint,
+    region: process.env.FIFY_S3_REGION || process.env.MY_AWS_REGION || "us-east-1",
+    // MinIO and most S3-compatible stores only support path-style addressing
+    forcePathStyle: process.env.FIFY_S3_FORCE_PATH_STYLE
+      ? process.env.FIFY_S3_FORCE_PATH_STYLE === "true"
+      : !!endpoint,
+    accessKeyId: process.env.FIFY_S3_ACCESS_KEY || process.env.FIFY_AWS_ACCESS_KEY,
+    secretAccessKey: process.env.FIFY_S3_SECRET_KEY || process.env.FIFY_AWS_SECRET_KEY,
+    presignExpiresIn: parseInt(process.env.FIFY_S3_PRESIGN_TTL || "86400", 10), // 24 hours
+  };
+}
+
+export class S3StorageProvider implements CloudStorageProvider {
+  private bucket: string;
+  private prefix: string;
+  private client: S3Client;
+  private presignExpiresIn: number;
+  private listFiles: { id: string; name: string }[] = [];
+
+  constructor(url: string) {
+    const { bucket, prefix } = parseS3Url(url);
+    const config = getS3Config();
+
+    this.bucket = bucket;
+    this.prefix = prefix;
+    this.presignExpiresIn = config.presignExpiresIn;
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
+      credentials: config.accessKeyId && config.secretAccessKey
+        ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+        : undefined,
+    });
+  }
+
+  async scanDirectory(_url: string): Promise<number> {
+    try {
+      this.listFiles = []; // Reset the list
+
+      // ListObjectsV2 returns at most 1000 keys per page
+      let continuationToken: string | undefined;
+      do {
+        const response = await this.client.send(new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: this.prefix || undefined,
+          ContinuationToken: continuationToken,
+        }));
+
+        const pageFiles = (response.Contents || [])
+          .filter((object) => object.Key && IMAGE_MIME_TYPES[path.extname(object.Key).toLowerCase()])
+          .map((object) => ({ id: object.Key!, name: path.basename(object.Key!) }));
+
+        this.listFiles.push(...pageFiles);
+        console.log(`Added ${pageFiles.length} images from S3 page, total: ${this.listFiles.length}`);
+
+        continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+      } while (continuationToken);
+
+      // Keys come back in UTF-8 binary order; sort explicitly so indexes are stable
+      this.listFiles.sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+      console.log(`Found ${this.listFiles.length} images in s3://${this.bucket}/${this.prefix}`);
+      return this.listFiles.length;
+    } catch (error) {
+      console.error("Error listing S3 objects:", error);
+      throw new Error(
+        `Failed to scan S3 bucket: ${(error as Error).message || "Unknown error"}`,
+      );
+    }
+  }
+
+  async getImages(startIndex: number, count: number): Promise<CloudImage[]> {
+    return this.getImageBatch(startIndex, count);
+  }
+
+  async getSingleImage(imageId: string): Promise<CloudImage | null> {
+    // Only keys from the job's listing can be served, not any object the credentials can read
+    const files = await this.getFiles();
+    const file = files.find((f) => f.id === imageId);
+    if (!file) return null;
+
+    try {
+      return await this.downloadImage(file);
+    } catch (error) {
+      console.error(`Error downloading S3 object ${imageId}:`, error);
+      return null;
+    }
+  }
+
+  async getImageBatch(startIndex: number, count: number): Promise<CloudImage[]> {
+    try {
+      console.log(`Downloading batch of ${count} images from S3`);
+      const files = await this.getFiles();
+      const batch = files.slice(startIndex, startIndex + count);
+
+      // Download objects in parallel
+      const downloadPromises = batch.map(async (file, index) => {
+        try {
+          return {
+            ...(await this.downloadImage(file)),
+            index: startIndex + index
+          };
+        } catch (error) {
+          console.error(`Error downloading S3 object ${file.id}:`, error);
+          return {
+            ...file,
+            index: startIndex + index
+          };
+        }
+      });
+
+      return Promise.all(downloadPromises) as Promise<CloudImage[]>;
+    } catch (error) {
+      console.error('Error getting S3 image batch:', error);
+      return [];
+    }
+  }
+
+  // Objects are private, so both links are time-limited presigned URLs
+  async getImageLinks(image: CloudImage): Promise<ImageLinks | null> {
+    if (!image.id) return {};
+
+    const url = await getSignedUrl(
+      this.client,
+      new GetObjectCommand({ Bucket: this.bucket, Key: image.id }),
+      { expiresIn: this.presignExpiresIn },
+    );
+    return { url, driveUrl: url };
+  }
+
+  private async downloadImage(file: { id: string; name: string }): Promise<CloudImage> {
+    const response = await this.client.send(new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: file.id,
+    }));
+
+    if (!response.Body) {
+      throw new Error("Empty S3 object body");
+    }
+
+    return {
+      ...file,
+      buffer: Buffer.from(await response.Body.transformToByteArray()),
+      mimeType: response.ContentType || IMAGE_MIME_TYPES[path.extname(file.id).toLowerCase()]
+    };
+  }
+
+  private async getFiles(): Promise<{ id: string; name: string }[]> {
+    if (this.listFiles.length === 0) {
+      await this.scanDirectory(`s3://${this.bucket}/${this.prefix}`);
+    }
+    return this.listFiles;
+  }
+}
+
+function parseS3Url(url: string): { bucket: string; prefix: string } {
+  const match = url.match(/^s3:\/\/([^/]+)\/?(.*)$/);
+  if (!match || !match[1]) {
+    throw new Error("Invalid S3 URL, expected s3://bucket/prefix");
+  }
+
+  // Treat the prefix as a folder so "photos" doesn't also match "photos-old/"
+  let prefix = decodeURIComponent(match[2] || "");
+  if (prefix && !prefix.endsWith("/")) {
+    prefix += "/";
+  }
+  return { bucket: match[1], prefix };
+}
+
+const DRIVE_FOLDER_MIME_TYPE = "application/vnd.google-apps.folder";
+
+// 403 reasons that mean the API key can't see the folder, as opposed to quota or key problems
+const NOT_PUBLIC_REASONS = new Set(["forbidden", "insufficientFilePermissions", "appNotAuthorizedToFile"]);
+
+/**
+ * Extracts the folder id from a Drive folder URL (including /drive/u/<n>/ URLs).
+ * Shared Drive roots use the drive id as folder id, which starts with "0A".
+ */
+export function parseDriveFolderUrl(url: string): { folderId: string; isSharedDriveRoot: boolean } {
+  const parsedUrl = new URL(url);
+  const folderPathMatch = parsedUrl.pathname.match(/\/folders\/([^/?]+)/);
+  if (!folderPathMatch) {
+    throw new Error("Invalid Google Drive folder URL");
+  }
+
+  const folderId = folderPathMatch[1];
+  return { folderId, isSharedDriveRoot: /^0A[\w-]{17}$/.test(folderId) };
+}
+
+interface DriveListedFile {
+  id: string;
+  name: string;
+  modifiedTime?: string;
+  folderPath?: string;
+}
+
 export class GoogleStorageProvider implements CloudStorageProvider {
   private url: string;
   private apiKey: string;
-  private listFiles: { id: string; name: string }[] = [];
+  private options: ScanOptions;
+  private driveId: string | null = null; // Set when the folder lives in a Shared Drive
+  private listFiles: DriveListedFile[] = [];
 
-  constructor(url: string, apiKey: string) {
+  constructor(url: string, apiKey: string, options: ScanOptions = {}) {
     this.url = url;
     this.apiKey = apiKey;
+    this.options = options;
   }
 
   async scanDirectory(url: string): Promise<number> {
     try {
-      const parsedUrl = new URL(url);
-      const folderPathMatch = parsedUrl.pathname.match(/\/folders\/([^/?]+)/);
-      if (!folderPathMatch) {
-        throw new Error("Invalid Google Drive folder URL");
+      const { folderId: rootFolderId, isSharedDriveRoot } = parseDriveFolderUrl(url);
+      this.listFiles = []; // Reset the list
+
+      // Folders inside a Shared Drive must be listed against that drive
+      const folder = await this.getFolderMetadata(rootFolderId);
+      this.driveId = folder.driveId || (isSharedDriveRoot ? rootFolderId : null);
+      if (this.driveId) {
+        console.log(`Folder belongs to Shared Drive ${this.driveId}`);
       }
 
-      const folderId = folderPathMatch[1];
-      this.listFiles = []; // Reset the list
-      
-      // Use pagination to get all files (Google Drive API only returns up to 100 files per request)
-      let nextPageToken: string | undefined;
-      let totalFetched = 0;
-      
-      do {
-        // Build the URL with pageToken if we have one
-        let apiUrl = `https://www.googleapis.com/drive/v3/files?q='${folderId}'+in+parents&pageSize=1000&key=${this.apiKey}`;
-        if (nextPageToken) {
-          apiUrl += `&pageToken=${nextPageToken}`;
-        }
-        
-        console.log(`Fetching Drive files page ${nextPageToken ? "with token" : "1"}`);
-        
-        const response = await fetch(apiUrl);
-        const data = await response.json();
-
-        if (data.error) {
-          throw new Error(
-            `Google Drive API error: ${data.error.message || "Unknown error"}`,
-          );
-        }
+      // Only the selected folder unless recursive mode is on
+      const maxDepth = this.options.recursive
+        ? Math.min(this.options.maxDepth ?? DEFAULT_MAX_DEPTH, MAX_SCAN_DEPTH)
+        : 0;
 
-        // Filter for only image files and add to our list
-        const pageFiles = data.files.filter((file: any) =>
-          file.mimeType?.startsWith("image/")
-        );
-        
-        this.listFiles.push(...pageFiles);
-        totalFetched += pageFiles.length;
-        console.log(`Added ${pageFiles.length} images from page, total: ${totalFetched}`);
-        
-        // Check if there are more pages
-        nextPageToken = data.nextPageToken;
-        
-        // Add a small delay between pagination requests to avoid rate limiting
-        if (nextPageToken) {
-          await new Promise(resolve => setTimeout(resolve, 500));
+      // Breadth-first so images of a folder come before those of its subfolders
+      const queue: { id: string; path: string; depth: number }[] = [
+        { id: rootFolderId, path: "", depth: 0 },
+      ];
+
+      while (queue.length > 0) {
+        const folder = queue.shift()!;
+        const { images, folders } = await this.listFolder(folder.id);
+
+        this.listFiles.push(...images.map((file) => ({ ...file, folderPath: folder.path })));
+        console.log(`Added ${images.length} images from folder "${folder.path || "/"}", total: ${this.listFiles.length}`);
+
+        if (folder.depth < maxDepth) {
+          for (const subfolder of folders) {
+            queue.push({
+              id: subfolder.id,
+              path: folder.path ? `${folder.path}/${subfolder.name}` : subfolder.name,
+              depth: folder.depth + 1,
+            });
+          }
         }
-        
-      } while (nextPageToken);
+      }
 
       console.log(`Found ${this.listFiles.length} images in Google Drive folder`);
       return this.listFiles.length;
     } catch (error) {
       console.error("Error listing files:", error);
+      if (error instanceof StorageAccessError) {
+        throw error;
+      }
       throw new Error(
         `Failed to scan Google Drive directory: ${
           (error as Error).message || "Unknown error"
@@ -97,6 +670,86 @@ export class GoogleStorageProvider implements CloudStorageProvider {
     }
   }
 
+  // Folder metadata; also tells whether the folder is publicly readable
+  private async getFolderMetadata(folderId: string): Promise<{ id: string; name: string; driveId?: string }> {
+    const apiUrl = `https://www.googleapis.com/drive/v3/files/${folderId}?supportsAllDrives=true&fields=id,name,mimeType,driveId&key=${this.apiKey}`;
+    const response = await fetch(apiUrl);
+    const data = await response.json();
+
+    if (data.error) {
+      // Drive answers 404 (or 403) for folders that exist but aren't shared publicly
+      const reason = data.error.errors?.[0]?.reason;
+      if (data.error.code === 404 || (data.error.code === 403 && NOT_PUBLIC_REASONS.has(reason))) {
+        throw new StorageAccessError(
+          "This Google Drive folder isn't shared publicly. Set its sharing to \"Anyone with the link\" (for Shared Drives, sharing outside the organization must also be allowed) and try again.",
+          "FOLDER_NOT_PUBLIC",
+        );
+      }
+      throw new Error(
+        `Google Drive API error: ${data.error.message || "Unknown error"}`,
+      );
+    }
+
+    if (data.mimeType !== DRIVE_FOLDER_MIME_TYPE) {
+      throw new Error("The Google Drive URL does not point to a folder");
+    }
+
+    return data;
+  }
+
+  // Lists the images and subfolders directly inside a Drive folder
+  private async listFolder(folderId: string): Promise<{
+    images: DriveListedFile[];
+    folders: { id: string; name: string }[];
+  }> {
+    const images: DriveListedFile[] = [];
+    const folders: { id: string; name: string }[] = [];
+
+    // Use pagination to get all files (Google Drive API only returns up to 100 files per request)
+    let nextPageToken: string | undefined;
+
+    do {
+      // Build the URL with pageToken if we have one
+      let apiUrl = `https://www.googleapis.com/drive/v3/files?q='${folderId}'+in+parents&pageSize=1000&supportsAllDrives=true&includeItemsFromAllDrives=true&fields=nextPageToken,files(id,name,mimeType,modifiedTime)&key=${this.apiKey}`;
+      if (this.driveId) {
+        apiUrl += `&corpora=drive&driveId=${this.driveId}`;
+      }
+      if (nextPageToken) {
+        apiUrl += `&pageToken=${nextPageToken}`;
+      }
+
+      console.log(`Fetching Drive files page ${nextPageToken ? "with token" : "1"}`);
+
+      const response = await fetch(apiUrl);
+      const data = await response.json();
+
+      if (data.error) {
+        throw new Error(
+          `Google Drive API error: ${data.error.message || "Unknown error"}`,
+        );
+      }
+
+      for (const file of data.files) {
+        if (file.mimeType?.startsWith("image/")) {
+          images.push({ id: file.id, name: file.name, modifiedTime: file.modifiedTime });
+        } else if (file.mimeType === DRIVE_FOLDER_MIME_TYPE) {
+          folders.push({ id: file.id, name: file.name });
+        }
+      }
+
+      // Check if there are more pages
+      nextPageToken = data.nextPageToken;
+
+      // Add a small delay between pagination requests to avoid rate limiting
+      if (nextPageToken) {
+        await new Promise(resolve => setTimeout(resolve, 500));
+      }
+
+    } while (nextPageToken);
+
+    return { images, folders };
+  }
+
   async getImages(startIndex: number, count: number, imageSize: string = 's1000'): Promise<CloudImage[]> {
     try {
       console.log(`Downloading batch of ${count} images (${imageSize} size)`);
@@ -194,7 +847,20 @@ export class GoogleStorageProvider implements CloudStorageProvider {
     }
   }
 
-  private async getFiles(): Promise<{ id: string; name: string }[]> {
+  async getImageLinks(image: CloudImage, imageSize: string = 's1000'): Promise<ImageLinks | null> {
+    if (!image.id) return {};
+
+    return {
+      url: `https://lh3.googleusercontent.com/d/${image.id}=${imageSize}`,
+      driveUrl: `https://drive.google.com/file/d/${image.id}/view`,
+    };
+  }
+
+  async getFolderVersion(): Promise<FolderVersion> {
+    return toFolderVersion(await this.getFiles());
+  }
+
+  private async getFiles(): Promise<DriveListedFile[]> {
     if (!this.listFiles || this.listFiles.length === 0) {
       await this.scanDirectory(this.url);
     }
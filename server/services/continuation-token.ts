@@ -0,0 +1,97 @@
+import crypto from "crypto";
+import { signSecret } from "./secrets";
+
+const TOKEN_VERSION = 2;
+const SIGNATURE_PURPOSE = "continuation-token";
+
+// Each batch issues a fresh token, so this only needs to cover the gap between two batches
+const TOKEN_TTL = parseInt(process.env.FIFY_TOKEN_TTL || "3600", 10); // 1 hour
+
+export interface ContinuationState {
+  jobId: number;
+  referenceImageIds: string[];
+  nextIndex: number;
+}
+
+interface TokenPayload {
+  v: number;
+  job: number;
+  refs: string[];
+  next: number;
+  exp: number; // Unix time in seconds
+}
+
+// Version 1 tokens carried a single reference photo; still accepted until they expire
+interface TokenPayloadV1 extends Omit<TokenPayload, "refs"> {
+  ref: string;
+}
+
+const SUPPORTED_VERSIONS = ["v1", `v${TOKEN_VERSION}`];
+
+export type ContinuationTokenErrorCode =
+  | "TOKEN_MALFORMED"
+  | "TOKEN_UNSUPPORTED_VERSION"
+  | "TOKEN_INVALID_SIGNATURE"
+  | "TOKEN_EXPIRED"
+  | "TOKEN_JOB_MISMATCH";
+
+export class ContinuationTokenError extends Error {
+  readonly status = 400;
+
+  constructor(message: string, readonly code: ContinuationTokenErrorCode) {
+    super(message);
+    this.name = "ContinuationTokenError";
+  }
+}
+
+/**
+ * Token for the next batch of a client-driven analysis: "v2.<payload>.<signature>",
+ * where the payload is base64url JSON and the signature an HMAC over version and payload.
+ */
+export function createContinuationToken(state: ContinuationState): string {
+  const payload: TokenPayload = {
+    v: TOKEN_VERSION,
+    job: state.jobId,
+    refs: state.referenceImageIds,
+    next: state.nextIndex,
+    exp: Math.floor(Date.now() / 1000) + TOKEN_TTL,
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `v${TOKEN_VERSION}.${encoded}.${signSecret(SIGNATURE_PURPOSE, `v${TOKEN_VERSION}.${encoded}`)}`;
+}
+
+// Checks signature, expiry and that the token belongs to the job it is used with
+export function verifyContinuationToken(token: string, jobId: number): ContinuationState {
+  const parts = typeof token === "string" ? token.split(".") : [];
+  if (parts.length !== 3) {
+    throw new ContinuationTokenError("Malformed continuation token", "TOKEN_MALFORMED");
+  }
+
+  const [version, encoded, signature] = parts;
+  if (!SUPPORTED_VERSIONS.includes(version)) {
+    throw new ContinuationTokenError("Unsupported continuation token version", "TOKEN_UNSUPPORTED_VERSION");
+  }
+
+  const expected = Buffer.from(signSecret(SIGNATURE_PURPOSE, `${version}.${encoded}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    throw new ContinuationTokenError("Continuation token signature is invalid", "TOKEN_INVALID_SIGNATURE");
+  }
+
+  let payload: TokenPayload | TokenPayloadV1;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, "base64url").toString());
+  } catch (error) {
+    throw new ContinuationTokenError("Malformed continuation token", "TOKEN_MALFORMED");
+  }
+
+  if (payload.exp * 1000 < Date.now()) {
+    throw new ContinuationTokenError("Continuation token has expired", "TOKEN_EXPIRED");
+  }
+  if (payload.job !== jobId) {
+    throw new ContinuationTokenError("Continuation token belongs to another job", "TOKEN_JOB_MISMATCH");
+  }
+
+  const referenceImageIds = "refs" in payload ? payload.refs : [payload.ref];
+  return { jobId: payload.job, referenceImageIds, nextIndex: payload.next };
+}
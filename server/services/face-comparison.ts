@@ -0,0 +1,434 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import {
+  RekognitionClient,
+  CompareFacesCommand,
+  CreateCollectionCommand,
+  DeleteCollectionCommand,
+  DetectFacesCommand,
+  IndexFacesCommand,
+  SearchFacesByImageCommand,
+} from "@aws-sdk/client-rekognition";
+import {
+  getFixtureDir,
+  loadFixtureManifest,
+  type FixtureExpectation,
+} from "./fixtures";
+import type { BoundingBox, DetectedFace, FaceMatch } from "@shared/schema";
+
+export interface FaceComparisonResult {
+  // Every face in the target that matched the reference, best match first
+  matches: FaceMatch[];
+  // Faces found in the target that did not match the reference
+  unmatchedFaceCount: number;
+}
+
+// Faces stored in a collection for one image
+export interface IndexedFaces {
+  faces: { faceId: string; boundingBox?: BoundingBox }[];
+  // Faces found on the image but too small or blurred to be stored
+  unindexedFaceCount: number;
+}
+
+// A stored face found by searching a collection with a reference photo
+export interface CollectionFaceMatch {
+  faceId: string;
+  // Id the face's image was indexed under
+  externalImageId: string;
+  similarity: number;
+}
+
+export interface FaceComparisonOptions {
+  similarityThreshold?: number;
+  qualityFilter?: "NONE" | "AUTO" | "LOW" | "MEDIUM" | "HIGH";
+}
+
+export interface FaceComparisonEngine {
+  readonly name: string;
+  compareFaces: (
+    reference: Buffer,
+    target: Buffer,
+    options?: FaceComparisonOptions,
+  ) => Promise<FaceComparisonResult>;
+  // Every face on one image, used to check reference photos; engines without it skip the check
+  detectFaces?: (image: Buffer) => Promise<DetectedFace[]>;
+  // Collection mode: the faces of every image are stored once, then found with
+  // one search per reference photo. Engines without these only compare images.
+  indexFaces?: (
+    collectionId: string,
+    image: Buffer,
+    externalImageId: string,
+    options?: FaceComparisonOptions,
+  ) => Promise<IndexedFaces>;
+  searchFaces?: (
+    collectionId: string,
+    reference: Buffer,
+    options?: FaceComparisonOptions,
+  ) => Promise<CollectionFaceMatch[]>;
+  // Nothing happens when the collection doesn't exist
+  deleteCollection?: (collectionId: string) => Promise<void>;
+}
+
+export interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+export interface FaceComparisonEngineConfig {
+  awsCredentials?: AwsCredentials;
+}
+
+type FaceComparisonEngineFactory = (config: FaceComparisonEngineConfig) => FaceComparisonEngine;
+
+interface RegisteredEngine {
+  create: FaceComparisonEngineFactory;
+  requiresAwsCredentials: boolean;
+}
+
+const DEFAULT_ENGINE = "rekognition";
+
+// Most faces a collection search can return (Rekognition's limit); the most similar come first
+const MAX_SEARCH_FACES = 4096;
+
+const engines: Map<string, RegisteredEngine> = new Map();
+
+/**
+ * Make an engine available under the given name so it can be selected with
+ * the FIFY_FACE_ENGINE environment variable.
+ */
+export function registerFaceComparisonEngine(
+  name: string,
+  create: FaceComparisonEngineFactory,
+  options: { requiresAwsCredentials?: boolean } = {},
+): void {
+  engines.set(name, {
+    create,
+    requiresAwsCredentials: options.requiresAwsCredentials ?? false,
+  });
+}
+
+// Name of the engine selected by configuration (fixture mode defaults to the fixture engine)
+export function getConfiguredEngineName(): string {
+  return process.env.FIFY_FACE_ENGINE?.trim() || (getFixtureDir() ? "fixture" : DEFAULT_ENGINE);
+}
+
+export function engineRequiresAwsCredentials(name: string = getConfiguredEngineName()): boolean {
+  return engines.get(name)?.requiresAwsCredentials ?? false;
+}
+
+export function createFaceComparisonEngine(
+  config: FaceComparisonEngineConfig,
+  name: string = getConfiguredEngineName(),
+): FaceComparisonEngine {
+  const engine = engines.get(name);
+  if (!engine) {
+    throw new Error(`Unsupported face comparison engine: ${name}`);
+  }
+
+  if (engine.requiresAwsCredentials && !config.awsCredentials) {
+    throw new Error("AWS credentials are required");
+  }
+
+  return engine.create(config);
+}
+
+export class RekognitionFaceComparisonEngine implements FaceComparisonEngine {
+  readonly name = "rekognition";
+  private client: RekognitionClient;
+
+  constructor(credentials: AwsCredentials) {
+    // Create Rekognition client with optimized settings
+    this.client = new RekognitionClient({
+      region: process.env.MY_AWS_REGION || "us-east-1",
+      credentials,
+      maxAttempts: 2 // Reduce retry attempts for faster failure
+    });
+  }
+
+  async compareFaces(
+    reference: Buffer,
+    target: Buffer,
+    options: FaceComparisonOptions = {},
+  ): Promise<FaceComparisonResult> {
+    const command = new CompareFacesCommand({
+      SourceImage: { Bytes: reference },
+      TargetImage: { Bytes: target },
+      SimilarityThreshold: options.similarityThreshold ?? 70,
+      QualityFilter: options.qualityFilter ?? 'LOW'
+    });
+
+    const response = await this.client.send(command);
+
+    const matches = (response.FaceMatches || [])
+      .map((faceMatch) => ({
+        similarity: faceMatch.Similarity || 0,
+        boundingBox: toBoundingBox(faceMatch.Face?.BoundingBox),
+      }))
+      .sort((a, b) => b.similarity - a.similarity);
+
+    return {
+      matches,
+      unmatchedFaceCount: response.UnmatchedFaces?.length || 0,
+    };
+  }
+
+  async detectFaces(image: Buffer): Promise<DetectedFace[]> {
+    const command = new DetectFacesCommand({
+      Image: { Bytes: image },
+      Attributes: ["ALL"]
+    });
+
+    const response = await this.client.send(command);
+
+    return (response.FaceDetails || []).map((face) => ({
+      boundingBox: toBoundingBox(face.BoundingBox)!,
+      confidence: face.Confidence || 0,
+      brightness: face.Quality?.Brightness,
+      sharpness: face.Quality?.Sharpness,
+      eyesOpen: face.EyesOpen?.Value,
+      sunglasses: face.Sunglasses?.Value,
+    }));
+  }
+
+  async indexFaces(
+    collectionId: string,
+    image: Buffer,
+    externalImageId: string,
+    options: FaceComparisonOptions = {},
+  ): Promise<IndexedFaces> {
+    const command = new IndexFacesCommand({
+      CollectionId: collectionId,
+      Image: { Bytes: image },
+      ExternalImageId: externalImageId,
+      QualityFilter: options.qualityFilter ?? 'LOW'
+    });
+
+    let response;
+    try {
+      response = await this.client.send(command);
+    } catch (error) {
+      // The first image of a job creates its collection
+      if ((error as Error).name !== "ResourceNotFoundException") throw error;
+      await this.createCollection(collectionId);
+      response = await this.client.send(command);
+    }
+
+    return {
+      faces: (response.FaceRecords || []).map((record) => ({
+        faceId: record.Face!.FaceId!,
+        boundingBox: toBoundingBox(record.Face?.BoundingBox),
+      })),
+      unindexedFaceCount: response.UnindexedFaces?.length || 0,
+    };
+  }
+
+  async searchFaces(
+    collectionId: string,
+    reference: Buffer,
+    options: FaceComparisonOptions = {},
+  ): Promise<CollectionFaceMatch[]> {
+    const command = new SearchFacesByImageCommand({
+      CollectionId: collectionId,
+      Image: { Bytes: reference },
+      MaxFaces: MAX_SEARCH_FACES,
+      FaceMatchThreshold: options.similarityThreshold ?? 70,
+      QualityFilter: options.qualityFilter ?? 'LOW'
+    });
+
+    const response = await this.client.send(command);
+
+    return (response.FaceMatches || []).map((faceMatch) => ({
+      faceId: faceMatch.Face!.FaceId!,
+      externalImageId: faceMatch.Face!.ExternalImageId!,
+      similarity: faceMatch.Similarity || 0,
+    }));
+  }
+
+  async deleteCollection(collectionId: string): Promise<void> {
+    try {
+      await this.client.send(new DeleteCollectionCommand({ CollectionId: collectionId }));
+    } catch (error) {
+      if ((error as Error).name !== "ResourceNotFoundException") throw error;
+    }
+  }
+
+  private async createCollection(collectionId: string): Promise<void> {
+    try {
+      await this.client.send(new CreateCollectionCommand({ CollectionId: collectionId }));
+    } catch (error) {
+      // Another image of the batch got there first
+      if ((error as Error).name !== "ResourceAlreadyExistsException") throw error;
+    }
+  }
+}
+
+/**
+ * Deterministic engine for demos and tests. Targets are recognised by content
+ * hash and answered from the fixture manifest, whatever the reference image is.
+ */
+export class FixtureFaceComparisonEngine implements FaceComparisonEngine {
+  readonly name = "fixture";
+  private expectations: Promise<Map<string, FixtureExpectation>> | null = null;
+  private referenceFaces: Promise<Map<string, DetectedFace[]>> | null = null;
+
+  constructor(private dir: string) {}
+
+  async compareFaces(
+    _reference: Buffer,
+    target: Buffer,
+    options: FaceComparisonOptions = {},
+  ): Promise<FaceComparisonResult> {
+    const expectations = await this.loadExpectations();
+    const expected = expectations.get(hashBuffer(target));
+    const threshold = options.similarityThreshold ?? 70;
+
+    if (!expected) {
+      return { matches: [], unmatchedFaceCount: 0 };
+    }
+
+    if (expected.similarity < threshold) {
+      return { matches: [], unmatchedFaceCount: (expected.unmatchedFaceCount || 0) + 1 };
+    }
+
+    return {
+      matches: [{ similarity: expected.similarity, boundingBox: expected.boundingBox }],
+      unmatchedFaceCount: expected.unmatchedFaceCount || 0,
+    };
+  }
+
+  // Faces listed for the photo in the manifest's references, or a single clear face
+  async detectFaces(image: Buffer): Promise<DetectedFace[]> {
+    const referenceFaces = await this.loadReferenceFaces();
+    return referenceFaces.get(hashBuffer(image)) ?? [FIXTURE_DEFAULT_FACE];
+  }
+
+  // Collections only live as long as the process
+  async indexFaces(collectionId: string, image: Buffer, externalImageId: string): Promise<IndexedFaces> {
+    const expected = (await this.loadExpectations()).get(hashBuffer(image));
+    const collection = fixtureCollections.get(collectionId) ?? new Map<string, FixtureIndexedFace>();
+    fixtureCollections.set(collectionId, collection);
+
+    if (!expected) {
+      return { faces: [], unindexedFaceCount: 0 };
+    }
+
+    // The listed face, then the other people on the image, who match no one
+    const similarities = [expected.similarity, ...Array<number>(expected.unmatchedFaceCount || 0).fill(0)];
+    const faces = similarities.map((similarity, index) => {
+      const faceId = `${externalImageId}-${collection.size}`;
+      collection.set(faceId, { externalImageId, similarity });
+      return { faceId, boundingBox: index === 0 ? expected.boundingBox : undefined };
+    });
+    return { faces, unindexedFaceCount: 0 };
+  }
+
+  async searchFaces(
+    collectionId: string,
+    _reference: Buffer,
+    options: FaceComparisonOptions = {},
+  ): Promise<CollectionFaceMatch[]> {
+    const threshold = options.similarityThreshold ?? 70;
+    return Array.from(fixtureCollections.get(collectionId) ?? [])
+      .filter(([, face]) => face.similarity >= threshold)
+      .map(([faceId, face]) => ({ faceId, ...face }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, MAX_SEARCH_FACES);
+  }
+
+  async deleteCollection(collectionId: string): Promise<void> {
+    fixtureCollections.delete(collectionId);
+  }
+
+  private loadReferenceFaces(): Promise<Map<string, DetectedFace[]>> {
+    if (!this.referenceFaces) {
+      this.referenceFaces = (async () => {
+        const manifest = await loadFixtureManifest(this.dir);
+        const byHash = new Map<string, DetectedFace[]>();
+
+        for (const [fileName, faces] of Object.entries(manifest.references)) {
+          try {
+            const buffer = await fs.readFile(path.join(this.dir, fileName));
+            byHash.set(hashBuffer(buffer), faces);
+          } catch (error) {
+            console.error(`Fixture manifest references missing file ${fileName}:`, error);
+          }
+        }
+
+        return byHash;
+      })();
+    }
+    return this.referenceFaces;
+  }
+
+  private loadExpectations(): Promise<Map<string, FixtureExpectation>> {
+    if (!this.expectations) {
+      this.expectations = (async () => {
+        const manifest = await loadFixtureManifest(this.dir);
+        const byHash = new Map<string, FixtureExpectation>();
+
+        for (const [fileName, expected] of Object.entries(manifest.similarities)) {
+          try {
+            const buffer = await fs.readFile(path.join(this.dir, fileName));
+            byHash.set(hashBuffer(buffer), expected);
+          } catch (error) {
+            console.error(`Fixture manifest references missing file ${fileName}:`, error);
+          }
+        }
+
+        return byHash;
+      })();
+    }
+    return this.expectations;
+  }
+}
+
+interface FixtureIndexedFace {
+  externalImageId: string;
+  similarity: number;
+}
+
+const fixtureCollections = new Map<string, Map<string, FixtureIndexedFace>>();
+
+const FIXTURE_DEFAULT_FACE: DetectedFace = {
+  boundingBox: { width: 0.42, height: 0.5, left: 0.29, top: 0.17 },
+  confidence: 99.9,
+  brightness: 80,
+  sharpness: 80,
+  eyesOpen: true,
+  sunglasses: false,
+};
+
+function hashBuffer(buffer: Buffer): string {
+  return crypto.createHash("sha256").update(buffer).digest("hex");
+}
+
+function toBoundingBox(box?: {
+  Width?: number;
+  Height?: number;
+  Left?: number;
+  Top?: number;
+}): BoundingBox | undefined {
+  if (!box) return undefined;
+
+  return {
+    width: box.Width || 0,
+    height: box.Height || 0,
+    left: box.Left || 0,
+    top: box.Top || 0,
+  };
+}
+
+registerFaceComparisonEngine(
+  "rekognition",
+  (config) => new RekognitionFaceComparisonEngine(config.awsCredentials!),
+  { requiresAwsCredentials: true },
+);
+
+registerFaceComparisonEngine("fixture", () => {
+  const dir = getFixtureDir();
+  if (!dir) {
+    throw new Error("FIFY_FIXTURE_DIR must be set to use the fixture engine");
+  }
+  return new FixtureFaceComparisonEngine(dir);
+});
@@ -0,0 +1,47 @@
+import fs from "fs/promises";
+import path from "path";
+import type { BoundingBox, DetectedFace } from "@shared/schema";
+
+// Sidecar file that lives next to the sample images
+export const FIXTURE_MANIFEST_FILE = "manifest.json";
+
+export interface FixtureExpectation {
+  similarity: number;
+  boundingBox?: BoundingBox;
+  unmatchedFaceCount?: number;
+}
+
+export interface FixtureManifest {
+  // Expected similarity per image file name; unlisted images contain no matching face
+  similarities: Record<string, FixtureExpectation>;
+  // Faces detected on a file when it is uploaded as a reference photo; any
+  // other reference has a single clear face
+  references: Record<string, DetectedFace[]>;
+}
+
+/**
+ * Folder of sample images used in fixture mode, or null when fixture mode is off.
+ * Fixture mode lets the whole app run offline, without Google Drive or AWS.
+ */
+export function getFixtureDir(): string | null {
+  const dir = process.env.FIFY_FIXTURE_DIR?.trim();
+  return dir ? path.resolve(dir) : null;
+}
+
+export function isFixtureMode(): boolean {
+  return getFixtureDir() !== null;
+}
+
+export async function loadFixtureManifest(dir: string): Promise<FixtureManifest> {
+  try {
+    const raw = await fs.readFile(path.join(dir, FIXTURE_MANIFEST_FILE), "utf8");
+    const parsed = JSON.parse(raw);
+    return { similarities: parsed.similarities || {}, references: parsed.references || {} };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      console.log(`No fixture manifest found in ${dir}, all images will be non-matches`);
+      return { similarities: {}, references: {} };
+    }
+    throw new Error(`Invalid fixture manifest: ${(error as Error).message}`);
+  }
+}
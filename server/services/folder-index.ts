@@ -0,0 +1,53 @@
+import { type FolderIndex, type ScanJob, type ScanOptions } from "@shared/schema";
+import { storage } from "../storage";
+import { parseDriveFolderUrl, type CloudStorageProvider, type FolderVersion } from "./cloud-storage";
+
+// URL under which an indexed folder is scanned
+export function getDriveFolderUrl(folderId: string): string {
+  return `https://drive.google.com/drive/folders/${encodeURIComponent(folderId)}`;
+}
+
+// Drive folder of a source URL, or null for any other kind of source
+export function getDriveFolderId(url: string): string | null {
+  if (!url.includes("drive.google.com")) return null;
+  try {
+    return parseDriveFolderUrl(url).folderId;
+  } catch {
+    return null;
+  }
+}
+
+function isSameScan(a: ScanOptions | undefined, b: ScanOptions | undefined): boolean {
+  return !!a?.recursive === !!b?.recursive && (a?.recursive ? a.maxDepth === b?.maxDepth : true);
+}
+
+/**
+ * The index of a folder with its job, when the job has finished indexing it
+ * and the folder (listed with the same options) hasn't changed since: the
+ * same images, in the same subfolders, with the same modification times.
+ * `version` is the folder's current one, when the caller already has it.
+ */
+export async function findUpToDateFolderIndex(
+  folderId: string,
+  scanOptions: ScanOptions | undefined,
+  provider: CloudStorageProvider,
+  version?: FolderVersion,
+): Promise<{ index: FolderIndex; job: ScanJob } | null> {
+  const index = await storage.getFolderIndex(folderId);
+  if (!index || !isSameScan(index.scanOptions, scanOptions) || !provider.getFolderVersion) {
+    return null;
+  }
+
+  const job = await storage.getScanJob(index.jobId);
+  if (job?.status !== "complete" || !job.results) {
+    return null;
+  }
+
+  const current = version ?? await provider.getFolderVersion();
+  if (current.fingerprint !== index.fingerprint) {
+    console.log(`[API] Index of folder ${folderId} is out of date`);
+    return null;
+  }
+
+  return { index, job };
+}
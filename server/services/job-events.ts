@@ -0,0 +1,135 @@
+import { EventEmitter } from "events";
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer, type WebSocket } from "ws";
+import { TERMINAL_JOB_STATUSES, type JobEvent } from "@shared/schema";
+import { storage } from "../storage";
+
+// Workers in other instances don't publish here, so open streams also re-read the job this often
+const RESYNC_INTERVAL = 10000;
+// Keeps proxies from closing idle connections
+const HEARTBEAT_INTERVAL = 15000;
+
+const JOB_EVENTS_PATH = /^\/api\/jobs\/(\d+)\/events$/;
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+export function publishJobEvent(jobId: number, event: JobEvent): void {
+  emitter.emit(`job:${jobId}`, event);
+}
+
+function subscribeToJob(jobId: number, listener: (event: JobEvent) => void): () => void {
+  emitter.on(`job:${jobId}`, listener);
+  return () => emitter.off(`job:${jobId}`, listener);
+}
+
+export interface JobEventStream {
+  send: (event: JobEvent) => void;
+  heartbeat: () => void;
+  close: () => void;
+}
+
+/**
+ * Feed a job's events into a transport: a snapshot first, then live events
+ * until the job ends. Returns a function that stops the stream, or null when
+ * the job doesn't exist.
+ */
+export async function streamJobEvents(jobId: number, stream: JobEventStream): Promise<(() => void) | null> {
+  const job = await storage.getScanJob(jobId);
+  if (!job) return null;
+
+  const sentImageIds = new Set<number>();
+  let processed = 0;
+  let stopped = false;
+
+  const results = Array.isArray(job.results) ? job.results : [];
+  results.forEach((result) => sentImageIds.add(result.imageId));
+  processed = results.length;
+  stream.send({ type: "snapshot", status: job.status, results, processed, total: job.imageCount });
+
+  const stop = () => {
+    if (stopped) return;
+    stopped = true;
+    unsubscribe();
+    clearInterval(resyncTimer);
+    clearInterval(heartbeatTimer);
+  };
+
+  const send = (event: JobEvent) => {
+    if (stopped) return;
+    if (event.type === "result") sentImageIds.add(event.result.imageId);
+    if (event.type === "progress") processed = event.processed;
+
+    stream.send(event);
+    if (event.type === "status" && TERMINAL_JOB_STATUSES.includes(event.status)) {
+      stop();
+      stream.close();
+    }
+  };
+
+  const unsubscribe = subscribeToJob(jobId, send);
+
+  // Catch up on progress made by workers in other instances
+  const resyncTimer = setInterval(async () => {
+    try {
+      const current = await storage.getScanJob(jobId);
+      if (!current) return;
+
+      const currentResults = Array.isArray(current.results) ? current.results : [];
+      for (const result of currentResults) {
+        if (!sentImageIds.has(result.imageId)) send({ type: "result", result });
+      }
+      if (currentResults.length !== processed) {
+        send({ type: "progress", processed: currentResults.length, total: current.imageCount });
+      }
+      if (TERMINAL_JOB_STATUSES.includes(current.status)) {
+        send({ type: "status", status: current.status });
+      }
+    } catch (error) {
+      console.error(`[API] Error refreshing events for job ${jobId}:`, error);
+    }
+  }, RESYNC_INTERVAL);
+
+  const heartbeatTimer = setInterval(() => stream.heartbeat(), HEARTBEAT_INTERVAL);
+
+  if (TERMINAL_JOB_STATUSES.includes(job.status)) {
+    send({ type: "status", status: job.status });
+  }
+
+  return stop;
+}
+
+/**
+ * Serve the same events over WebSocket at /api/jobs/:jobId/events, for clients
+ * that prefer it to Server-Sent Events. Other upgrade requests (such as Vite's
+ * HMR socket) are left alone.
+ */
+export function attachJobEventsWebSocket(server: Server): void {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const match = JOB_EVENTS_PATH.exec(new URL(req.url || "", "http://localhost").pathname);
+    if (!match) return;
+
+    wss.handleUpgrade(req, socket, head, async (ws: WebSocket) => {
+      const jobId = parseInt(match[1]);
+      try {
+        const stop = await streamJobEvents(jobId, {
+          send: (event) => ws.send(JSON.stringify(event)),
+          heartbeat: () => ws.ping(),
+          close: () => ws.close(1000),
+        });
+
+        if (!stop) {
+          ws.close(4404, "Job not found");
+          return;
+        }
+        ws.on("close", stop);
+      } catch (error) {
+        console.error(`[API] Error streaming events for job ${jobId}:`, error);
+        ws.close(1011);
+      }
+    });
+  });
+}
@@ -0,0 +1,63 @@
+import { MemStorage, storage, type AnalysisTaskRecord, type IStorage } from "../storage";
+
+export type AnalysisTaskChanges = Partial<Pick<AnalysisTaskRecord, "nextIndex" | "attempts" | "leaseUntil">>;
+
+/**
+ * Queue of jobs waiting for (or in the middle of) background analysis. A task
+ * is leased to one worker at a time; a lease that runs out without progress
+ * being recorded makes the task available again, so a crashed worker's jobs
+ * are picked up by the next one.
+ */
+export interface JobQueue {
+  readonly name: string;
+  enqueue(task: AnalysisTaskRecord): Promise<void>;
+  // Next task nobody holds a lease on, leased for leaseMs; null when there is nothing to do
+  claim(leaseMs: number): Promise<AnalysisTaskRecord | null>;
+  update(jobId: number, changes: AnalysisTaskChanges): Promise<void>;
+  complete(jobId: number): Promise<void>;
+}
+
+// Queue backed by the task table of a job store
+export class StorageJobQueue implements JobQueue {
+  constructor(readonly name: string, private store: IStorage) {}
+
+  async enqueue(task: AnalysisTaskRecord): Promise<void> {
+    await this.store.saveAnalysisTask(task);
+  }
+
+  async claim(leaseMs: number): Promise<AnalysisTaskRecord | null> {
+    const now = Date.now();
+    const task = await this.store.claimAnalysisTask(
+      new Date(now).toISOString(),
+      new Date(now + leaseMs).toISOString(),
+    );
+    return task ?? null;
+  }
+
+  async update(jobId: number, changes: AnalysisTaskChanges): Promise<void> {
+    await this.store.updateAnalysisTask(jobId, changes);
+  }
+
+  async complete(jobId: number): Promise<void> {
+    await this.store.deleteAnalysisTask(jobId);
+  }
+}
+
+/**
+ * Pick the queue from FIFY_JOB_QUEUE: "database" keeps tasks in the job store
+ * (durable with SQLite or Postgres), "memory" keeps them in this process only.
+ * Defaults to "memory" when the job store itself is in memory.
+ */
+export function createJobQueue(): JobQueue {
+  const type = process.env.FIFY_JOB_QUEUE?.trim()
+    || (process.env.FIFY_STORAGE?.trim() === "memory" ? "memory" : "database");
+
+  switch (type) {
+    case "memory":
+      return new StorageJobQueue("memory", new MemStorage());
+    case "database":
+      return new StorageJobQueue("database", storage);
+    default:
+      throw new Error(`Unsupported job queue: ${type}`);
+  }
+}
@@ -0,0 +1,242 @@
+import { DEFAULT_ANALYSIS_OPTIONS, getJobSourceUrls, type ScanResult } from "@shared/schema";
+import { storage } from "../storage";
+import { analyzeBatch } from "./analysis";
+import { createStorageProviderForSources } from "./cloud-storage";
+import { createFaceComparisonEngine, type AwsCredentials } from "./face-comparison";
+import { publishJobEvent } from "./job-events";
+import { createJobQueue, type JobQueue } from "./job-queue";
+import { keepReferenceImages, loadReferenceImages } from "./reference-images";
+import { decryptSecret, encryptSecret } from "./secrets";
+
+// A task must record progress within this time or another worker may take it over
+const LEASE_MS = 2 * 60 * 1000; // 2 minutes
+// How often an idle worker looks for tasks enqueued by other instances
+const POLL_INTERVAL = 5000;
+// Without a Lambda time limit, batches may run longer than in the client-driven flow
+const BATCH_TIMEOUT = 60000;
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY = 30000;
+// How often a paused job is checked for being resumed
+const PAUSE_RECHECK_DELAY = 10000;
+
+// Credentials entered by the user, kept (encrypted) with the task so the worker can use them
+export interface AnalysisCredentials {
+  awsCredentials?: AwsCredentials;
+  googleApiKey?: string;
+}
+
+/**
+ * How analyses are driven, from FIFY_JOB_RUNNER: "worker" (default) processes
+ * queued jobs in the background on the server, "client" leaves it to the
+ * browser to request every batch (for hosts such as Netlify Functions that
+ * can't run background work).
+ */
+export function isBackgroundRunnerEnabled(): boolean {
+  return (process.env.FIFY_JOB_RUNNER?.trim() || "worker") === "worker";
+}
+
+export class JobWorker {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private stopped = true;
+  // Paused jobs this worker set aside until their next recheck
+  private parkedJobs = new Set<number>();
+
+  constructor(private queue: JobQueue) {}
+
+  start(): void {
+    this.stopped = false;
+    console.log(`[Worker] Processing analysis jobs from the ${this.queue.name} queue`);
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) clearTimeout(this.timer);
+  }
+
+  // Queue a job for analysis; a resumed job starts at the first image without a result
+  async enqueue(
+    jobId: number,
+    referenceImageIds: string[],
+    credentials: AnalysisCredentials,
+    nextIndex = 0,
+  ): Promise<void> {
+    const hasCredentials = !!(credentials.awsCredentials || credentials.googleApiKey);
+
+    await this.queue.enqueue({
+      jobId,
+      referenceImageIds,
+      nextIndex,
+      credentials: hasCredentials
+        ? encryptSecret(Buffer.from(JSON.stringify(credentials))).toString("base64")
+        : undefined,
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+    });
+
+    // Start right away instead of waiting for the next poll
+    this.notify();
+  }
+
+  // Pick up a resumed job without waiting for the next poll
+  notify(): void {
+    if (!this.stopped && !this.running) this.schedule(0);
+  }
+
+  /**
+   * Pick up a resumed job right away. A job this worker set aside while it was
+   * paused gets its task's lease back; one set aside by another instance is
+   * picked up at its next recheck.
+   */
+  async resume(jobId: number): Promise<void> {
+    if (this.parkedJobs.delete(jobId)) {
+      await this.queue.update(jobId, { leaseUntil: undefined });
+    }
+    this.notify();
+  }
+
+  private schedule(delay: number): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.drain(), delay);
+    this.timer.unref();
+  }
+
+  private async drain(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      while (!this.stopped) {
+        const task = await this.queue.claim(LEASE_MS);
+        if (!task) break;
+        await this.runTask(task.jobId, task.referenceImageIds, task.nextIndex, task.attempts, task.credentials);
+      }
+    } catch (error) {
+      console.error("[Worker] Error claiming analysis task:", error);
+    } finally {
+      this.running = false;
+      if (!this.stopped) this.schedule(POLL_INTERVAL);
+    }
+  }
+
+  private async runTask(
+    jobId: number,
+    referenceImageIds: string[],
+    startIndex: number,
+    attempts: number,
+    encryptedCredentials?: string,
+  ): Promise<void> {
+    const job = await storage.getScanJob(jobId);
+    if (!job) {
+      console.log(`[Worker] Job ${jobId} no longer exists, dropping its task`);
+      return this.queue.complete(jobId);
+    }
+
+    let results: ScanResult[] = Array.isArray(job.results) ? job.results : [];
+    let nextIndex = startIndex;
+    this.parkedJobs.delete(jobId);
+    console.log(`[Worker] Analyzing job ${jobId} from index ${nextIndex}`);
+
+    try {
+      const referenceImages = await loadReferenceImages(referenceImageIds);
+      if (!referenceImages) {
+        // Retrying won't bring the reference back
+        attempts = MAX_ATTEMPTS;
+        throw new Error("Reference image expired");
+      }
+
+      const credentials: AnalysisCredentials = encryptedCredentials
+        ? JSON.parse(decryptSecret(Buffer.from(encryptedCredentials, "base64")).toString())
+        : {};
+      const awsCredentials = process.env.FIFY_AWS_ACCESS_KEY && process.env.FIFY_AWS_SECRET_KEY
+        ? { accessKeyId: process.env.FIFY_AWS_ACCESS_KEY, secretAccessKey: process.env.FIFY_AWS_SECRET_KEY }
+        : credentials.awsCredentials;
+
+      const provider = createStorageProviderForSources(
+        getJobSourceUrls(job),
+        process.env.GOOGLE_DRIVE_API_KEY || credentials.googleApiKey,
+        job.scanOptions,
+      );
+      const engine = createFaceComparisonEngine({ awsCredentials });
+
+      while (!this.stopped) {
+        // Honor pause and cancel requests between batches
+        const current = await storage.getScanJob(jobId);
+        if (!current || current.status === "cancelled") {
+          console.log(`[Worker] Job ${jobId} was cancelled`);
+          return this.queue.complete(jobId);
+        }
+        if (current.status === "paused") {
+          console.log(`[Worker] Job ${jobId} is paused at index ${nextIndex}`);
+          // However long the pause, the photos must still be there on resume
+          await keepReferenceImages(referenceImageIds);
+          await this.queue.update(jobId, {
+            nextIndex,
+            leaseUntil: new Date(Date.now() + PAUSE_RECHECK_DELAY).toISOString(),
+          });
+          this.parkedJobs.add(jobId);
+          return;
+        }
+        results = Array.isArray(current.results) ? current.results : results;
+
+        const batch = await analyzeBatch({
+          jobId,
+          imageCount: job.imageCount,
+          provider,
+          engine,
+          referenceImages,
+          analysisOptions: job.analysisOptions ?? DEFAULT_ANALYSIS_OPTIONS,
+          startIndex: nextIndex,
+          results,
+          timeoutMs: BATCH_TIMEOUT,
+        });
+
+        // A job paused during its last batch keeps its task, parked at the top of
+        // the loop, so resuming it completes the job
+        if (batch.status === "complete") {
+          console.log(`[Worker] Job ${jobId} complete`);
+          return this.queue.complete(jobId);
+        }
+        if (batch.newResults.length === 0) {
+          throw new Error(`No images processed from index ${nextIndex}`);
+        }
+
+        results = batch.results;
+        nextIndex = batch.nextIndex;
+        attempts = 0;
+        await this.queue.update(jobId, {
+          nextIndex,
+          attempts,
+          leaseUntil: new Date(Date.now() + LEASE_MS).toISOString(),
+        });
+      }
+
+      // Stopping: hand the task back so it resumes where it left off
+      await this.queue.update(jobId, { leaseUntil: undefined });
+    } catch (error) {
+      attempts++;
+      console.error(`[Worker] Error analyzing job ${jobId} (attempt ${attempts}/${MAX_ATTEMPTS}):`, error);
+
+      if (attempts >= MAX_ATTEMPTS) {
+        try {
+          await storage.updateScanJobResults(jobId, results, "failed");
+          publishJobEvent(jobId, { type: "status", status: "failed" });
+        } catch (statusError) {
+          // Already cancelled (or finished) in the meantime; leave it as it is
+          console.error(`[Worker] Could not mark job ${jobId} as failed:`, statusError);
+        }
+        return this.queue.complete(jobId);
+      }
+
+      // Back off before another worker (or this one) picks it up again
+      await this.queue.update(jobId, {
+        nextIndex,
+        attempts,
+        leaseUntil: new Date(Date.now() + RETRY_DELAY).toISOString(),
+      });
+    }
+  }
+}
+
+export const jobWorker = new JobWorker(createJobQueue());
@@ -0,0 +1,177 @@
+import sharp from "sharp";
+import {
+  BLOCKING_REFERENCE_ISSUES,
+  type BoundingBox,
+  type DetectedFace,
+  type ReferenceCheck,
+  type ReferenceCheckChoices,
+  type ReferenceIssue,
+} from "@shared/schema";
+import { type FaceComparisonEngine } from "./face-comparison";
+
+// Below these Rekognition quality scores (0-100) a face rarely matches anything
+const MIN_BRIGHTNESS = 20;
+const MIN_SHARPNESS = 20;
+// Faces narrower than this many pixels are too small to compare reliably
+const MIN_FACE_PIXELS = 24;
+// Room left around a cropped face, as a share of its size, so the detector still finds it
+const CROP_MARGIN = 0.3;
+// Crops smaller than this are enlarged so the engine accepts them
+const MIN_CROP_PIXELS = 160;
+
+export class ReferenceCheckError extends Error {
+  readonly status = 422;
+  readonly code = "REFERENCE_CHECK_FAILED";
+
+  constructor(readonly checks: ReferenceCheck[]) {
+    super("The reference photos need attention before the analysis can start");
+    this.name = "ReferenceCheckError";
+  }
+}
+
+// A check that stops the analysis, rather than only warning about it
+export function isBlockingCheck(check: ReferenceCheck): boolean {
+  return check.issues.some((issue) => BLOCKING_REFERENCE_ISSUES.includes(issue));
+}
+
+/**
+ * Look for faces on a reference photo and list what could keep it from
+ * matching. A photo with several faces needs `faceIndex` to say which one is
+ * the person, or the crop recorded when it was picked before; quality is then
+ * judged on that face alone.
+ */
+export async function checkReferenceImage(
+  engine: FaceComparisonEngine,
+  image: Buffer,
+  referenceIndex: number,
+  faceIndex?: number | null,
+  recordedCrop?: BoundingBox | null,
+): Promise<ReferenceCheck> {
+  // A file that can't be read as an image has no face either
+  const oriented = await autoOrient(image).catch(() => null);
+  const faces = oriented && engine.detectFaces ? await engine.detectFaces(image) : [];
+  const check: ReferenceCheck = { referenceIndex, faces, issues: [] };
+
+  if (faces.length === 0) {
+    check.issues.push("NO_FACE");
+    return check;
+  }
+
+  const chosen = faceIndex
+    ?? (faces.length === 1 ? 0 : null)
+    ?? (recordedCrop ? findClosestFace(faces, recordedCrop) : null);
+  if (chosen === null || chosen >= faces.length) {
+    check.issues.push("MULTIPLE_FACES");
+    return check;
+  }
+
+  check.faceIndex = chosen;
+  check.issues.push(...getQualityIssues(faces[chosen], oriented?.info.width ?? 0));
+  return check;
+}
+
+// Face whose centre is nearest to the centre of the box
+function findClosestFace(faces: DetectedFace[], box: BoundingBox): number {
+  const distance = (face: DetectedFace) => Math.hypot(
+    face.boundingBox.left + face.boundingBox.width / 2 - (box.left + box.width / 2),
+    face.boundingBox.top + face.boundingBox.height / 2 - (box.top + box.height / 2),
+  );
+  return faces.reduce((closest, face, index) => distance(face) < distance(faces[closest]) ? index : closest, 0);
+}
+
+function getQualityIssues(face: DetectedFace, imageWidth: number): ReferenceIssue[] {
+  const issues: ReferenceIssue[] = [];
+
+  const isTooSmall = imageWidth > 0 && face.boundingBox.width * imageWidth < MIN_FACE_PIXELS;
+  if (isTooSmall
+    || (face.brightness !== undefined && face.brightness < MIN_BRIGHTNESS)
+    || (face.sharpness !== undefined && face.sharpness < MIN_SHARPNESS)) {
+    issues.push("LOW_QUALITY");
+  }
+  if (face.eyesOpen === false) issues.push("EYES_CLOSED");
+  if (face.sunglasses) issues.push("SUNGLASSES");
+
+  return issues;
+}
+
+/**
+ * The photo turned upright according to its EXIF orientation, as the engine
+ * and the browser see it; bounding boxes are relative to this frame.
+ */
+async function autoOrient(image: Buffer): Promise<{ data: Buffer; info: sharp.OutputInfo }> {
+  return sharp(image).rotate().toBuffer({ resolveWithObject: true });
+}
+
+/**
+ * Cut one face (with some margin) out of a photo, so that comparisons use it
+ * instead of whichever face is largest.
+ */
+export async function cropToFace(image: Buffer, box: BoundingBox): Promise<Buffer> {
+  const { data, info: { width, height } } = await autoOrient(image);
+
+  const left = Math.max(0, Math.floor((box.left - box.width * CROP_MARGIN) * width));
+  const top = Math.max(0, Math.floor((box.top - box.height * CROP_MARGIN) * height));
+  const right = Math.min(width, Math.ceil((box.left + box.width * (1 + CROP_MARGIN)) * width));
+  const bottom = Math.min(height, Math.ceil((box.top + box.height * (1 + CROP_MARGIN)) * height));
+
+  const crop = sharp(data).extract({ left, top, width: right - left, height: bottom - top });
+  if (Math.min(right - left, bottom - top) < MIN_CROP_PIXELS) {
+    crop.resize({ width: MIN_CROP_PIXELS, height: MIN_CROP_PIXELS, fit: "outside" });
+  }
+  return crop.jpeg({ quality: 90 }).toBuffer();
+}
+
+export interface PreparedReferenceImage {
+  data: Buffer;
+  mimeType?: string;
+}
+
+export interface PreparedReferenceImages {
+  images: PreparedReferenceImage[];
+  // Face cut out of each photo, or null when the photo is used whole
+  crops: (BoundingBox | null)[];
+}
+
+/**
+ * Check every reference photo of an analysis and return the images to compare
+ * with, cropped to the chosen face where a photo has several. Throws a
+ * ReferenceCheckError when a photo has no usable face, or only has quality
+ * warnings that weren't accepted.
+ */
+export async function prepareReferenceImages(
+  engine: FaceComparisonEngine,
+  images: PreparedReferenceImage[],
+  choices: ReferenceCheckChoices,
+  recordedCrops: (BoundingBox | null)[] = [],
+): Promise<PreparedReferenceImages> {
+  // Engines that can't detect faces compare the photos as they are, or as they were cropped before
+  if (!engine.detectFaces) {
+    return {
+      images: await Promise.all(images.map((image, index) => cropReferenceImage(image, recordedCrops[index]))),
+      crops: images.map((_, index) => recordedCrops[index] ?? null),
+    };
+  }
+
+  const checks = await Promise.all(images.map((image, index) =>
+    checkReferenceImage(engine, image.data, index, choices.referenceFaces?.[index], recordedCrops[index])
+  ));
+  const needsAttention = checks.some((check) =>
+    isBlockingCheck(check) || (check.issues.length > 0 && !choices.acceptWarnings)
+  );
+  if (needsAttention) {
+    throw new ReferenceCheckError(checks);
+  }
+
+  const crops = checks.map(({ faces, faceIndex }) => faces.length > 1 ? faces[faceIndex!].boundingBox : null);
+  return {
+    images: await Promise.all(images.map((image, index) => cropReferenceImage(image, crops[index]))),
+    crops,
+  };
+}
+
+async function cropReferenceImage(
+  image: PreparedReferenceImage,
+  crop: BoundingBox | null | undefined,
+): Promise<PreparedReferenceImage> {
+  return crop ? { data: await cropToFace(image.data, crop), mimeType: "image/jpeg" } : image;
+}
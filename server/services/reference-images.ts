@@ -0,0 +1,66 @@
+import { storage } from "../storage";
+import { decryptSecret, encryptSecret, hashSecret } from "./secrets";
+
+// Reference photos are kept this long after the last upload, in seconds
+const REFERENCE_TTL = parseInt(process.env.FIFY_REFERENCE_TTL || "86400", 10); // 24 hours
+
+/**
+ * Store an uploaded reference photo encrypted at rest and return its id.
+ * Saving the same photo again only extends its expiry.
+ */
+export async function saveReferenceImage(image: Buffer, mimeType?: string): Promise<string> {
+  const id = hashSecret(image);
+  const now = Date.now();
+
+  await storage.saveReferenceImage({
+    id,
+    data: encryptSecret(image),
+    mimeType,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + REFERENCE_TTL * 1000).toISOString(),
+  });
+
+  return id;
+}
+
+// Decrypted reference photo, or null when it is unknown, expired or was stored with another key
+export async function loadReferenceImage(id: string): Promise<Buffer | null> {
+  const record = await storage.getReferenceImage(id);
+  if (!record || record.expiresAt < new Date().toISOString()) {
+    return null;
+  }
+
+  try {
+    return decryptSecret(record.data);
+  } catch (error) {
+    console.error(`[API] Unable to decrypt reference image ${id}:`, error);
+    return null;
+  }
+}
+
+// Every photo of an analysis, or null when any of them is no longer available
+export async function loadReferenceImages(ids: string[]): Promise<Buffer[] | null> {
+  const images = await Promise.all(ids.map(loadReferenceImage));
+  return images.every((image) => image !== null) ? images as Buffer[] : null;
+}
+
+/**
+ * Push back the expiry of photos that are still needed, such as those of a
+ * paused job, once they have used up half of their time.
+ */
+export async function keepReferenceImages(ids: string[]): Promise<void> {
+  const now = Date.now();
+  await Promise.all(ids.map(async (id) => {
+    const record = await storage.getReferenceImage(id);
+    if (record && Date.parse(record.expiresAt) - now < REFERENCE_TTL * 500) {
+      await storage.saveReferenceImage({ ...record, expiresAt: new Date(now + REFERENCE_TTL * 1000).toISOString() });
+    }
+  }));
+}
+
+export async function cleanupExpiredReferenceImages(): Promise<void> {
+  const deleted = await storage.deleteExpiredReferenceImages(new Date().toISOString());
+  if (deleted > 0) {
+    console.log(`[API] Removed ${deleted} expired reference images`);
+  }
+}
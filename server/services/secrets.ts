@@ -0,0 +1,52 @@
+import crypto from "crypto";
+
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+
+let encryptionKey: Buffer | null = null;
+
+/**
+ * AES-256 key derived from FIFY_ENCRYPTION_KEY. Without it a random key is
+ * generated per process, so anything encrypted or signed (reference photos,
+ * credentials of queued jobs, continuation tokens) only stays valid until the
+ * next restart and is not accepted by other instances.
+ */
+function getEncryptionKey(): Buffer {
+  if (!encryptionKey) {
+    const secret = process.env.FIFY_ENCRYPTION_KEY?.trim();
+    if (secret) {
+      encryptionKey = crypto.createHash("sha256").update(secret).digest();
+    } else {
+      console.warn("[API] FIFY_ENCRYPTION_KEY is not set, encrypted data will not survive a restart");
+      encryptionKey = crypto.randomBytes(32);
+    }
+  }
+  return encryptionKey;
+}
+
+// Keyed hash, so equal contents share an id without the id revealing the contents
+export function hashSecret(data: Buffer): string {
+  return crypto.createHmac("sha256", getEncryptionKey()).update(data).digest("hex");
+}
+
+// HMAC-SHA256 (base64url) of data; the purpose keeps signatures made for one use from passing for another
+export function signSecret(purpose: string, data: string): string {
+  return crypto.createHmac("sha256", getEncryptionKey()).update(`${purpose}:${data}`).digest("base64url");
+}
+
+// AES-256-GCM; the output is iv + auth tag + ciphertext
+export function encryptSecret(data: Buffer): Buffer {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(data), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]);
+}
+
+// Throws when the data was encrypted with another key or has been tampered with
+export function decryptSecret(data: Buffer): Buffer {
+  const iv = data.subarray(0, IV_LENGTH);
+  const authTag = data.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH);
+  const decipher = crypto.createDecipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + AUTH_TAG_LENGTH)), decipher.final()]);
+}
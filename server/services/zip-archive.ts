@@ -0,0 +1,171 @@
+import crypto from "crypto";
+import fs from "fs";
+import fsPromises from "fs/promises";
+import os from "os";
+import path from "path";
+import { pipeline } from "stream/promises";
+import yauzl from "yauzl";
+
+// Uploaded archives are extracted here, one folder per archive
+export function getArchivesDir(): string {
+  return path.resolve(process.env.FIFY_ZIP_DIR || path.join(os.tmpdir(), "fify-archives"));
+}
+
+// Largest ZIP accepted by /api/scan
+export const MAX_ZIP_UPLOAD_BYTES = parseInt(process.env.FIFY_ZIP_MAX_BYTES || String(1024 * 1024 * 1024), 10); // 1GB
+
+// Guards against archives that expand far beyond their upload size
+const MAX_EXTRACTED_BYTES = parseInt(process.env.FIFY_ZIP_MAX_EXTRACTED_BYTES || String(4 * 1024 * 1024 * 1024), 10); // 4GB
+const MAX_ENTRIES = 20000;
+
+// Extracted archives are removed after this long
+const ARCHIVE_TTL = 24 * 60 * 60 * 1000; // 24 hours
+
+const IMAGE_EXTENSIONS = new Set([".jpg", ".jpeg", ".png"]);
+
+export function getArchiveFolder(archiveId: string): string {
+  if (!/^[a-f0-9-]+$/i.test(archiveId)) {
+    throw new Error("Invalid archive id");
+  }
+  return path.join(getArchivesDir(), archiveId);
+}
+
+/**
+ * Extracts the images of an uploaded ZIP into a new archive folder. Entries are
+ * streamed to disk one at a time; nested folders are flattened into the file
+ * name ("Day 1/img.jpg" becomes "Day 1_img.jpg") so the folder can be served
+ * like any local folder, and a name taken by an earlier entry gets a number
+ * ("Day 1_img (2).jpg"). Archives with absolute or "../" entry paths are rejected.
+ */
+export async function extractZipArchive(zipPath: string): Promise<{ archiveId: string; imageCount: number }> {
+  const archiveId = crypto.randomUUID();
+  const folder = getArchiveFolder(archiveId);
+  await fsPromises.mkdir(folder, { recursive: true });
+
+  try {
+    const imageCount = await extractImages(zipPath, folder);
+    console.log(`Extracted ${imageCount} images from ZIP archive ${archiveId}`);
+    return { archiveId, imageCount };
+  } catch (error) {
+    await fsPromises.rm(folder, { recursive: true, force: true });
+    throw new Error(`Failed to extract ZIP archive: ${(error as Error).message || "Unknown error"}`);
+  }
+}
+
+// Remove extracted archives older than the TTL
+export async function cleanupExpiredArchives(): Promise<void> {
+  const dir = getArchivesDir();
+  let entries: fs.Dirent[];
+  try {
+    entries = await fsPromises.readdir(dir, { withFileTypes: true });
+  } catch (error) {
+    return; // Nothing extracted yet
+  }
+
+  await Promise.all(entries.filter((entry) => entry.isDirectory()).map(async (entry) => {
+    const folder = path.join(dir, entry.name);
+    try {
+      const stats = await fsPromises.stat(folder);
+      if (Date.now() - stats.mtimeMs > ARCHIVE_TTL) {
+        await fsPromises.rm(folder, { recursive: true, force: true });
+        console.log(`Removed expired ZIP archive ${entry.name}`);
+      }
+    } catch (error) {
+      console.error(`Error cleaning up ZIP archive ${entry.name}:`, error);
+    }
+  }));
+}
+
+function extractImages(zipPath: string, folder: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    yauzl.open(zipPath, { lazyEntries: true, validateEntrySizes: true }, (openError, zipFile) => {
+      if (openError || !zipFile) {
+        return reject(openError || new Error("Unable to open archive"));
+      }
+
+      let imageCount = 0;
+      let entryCount = 0;
+      let extractedBytes = 0;
+      const usedNames = new Set<string>();
+
+      const fail = (error: Error) => {
+        zipFile.close();
+        reject(error);
+      };
+
+      zipFile.on("error", fail);
+      zipFile.on("end", () => resolve(imageCount));
+      zipFile.on("entry", (entry: yauzl.Entry) => {
+        entryCount++;
+        if (entryCount > MAX_ENTRIES) {
+          return fail(new Error(`Archive has more than ${MAX_ENTRIES} entries`));
+        }
+
+        let flatName: string | null;
+        try {
+          flatName = toFlatFileName(entry.fileName);
+        } catch (error) {
+          return fail(error as Error);
+        }
+        if (!flatName) {
+          return zipFile.readEntry();
+        }
+        const fileName = toUnusedFileName(flatName, usedNames);
+        usedNames.add(fileName);
+
+        extractedBytes += entry.uncompressedSize;
+        if (extractedBytes > MAX_EXTRACTED_BYTES) {
+          return fail(new Error("Archive is too large once extracted"));
+        }
+
+        zipFile.openReadStream(entry, async (streamError, readStream) => {
+          if (streamError || !readStream) {
+            return fail(streamError || new Error(`Unable to read ${entry.fileName}`));
+          }
+
+          try {
+            await pipeline(readStream, fs.createWriteStream(path.join(folder, fileName)));
+            imageCount++;
+            zipFile.readEntry();
+          } catch (error) {
+            fail(error as Error);
+          }
+        });
+      });
+
+      zipFile.readEntry();
+    });
+  });
+}
+
+// Flat file name for an image entry, or null for folders, non-images and metadata files;
+// throws for a path that points outside the archive
+function toFlatFileName(entryName: string): string | null {
+  if (/^([\\/]|[a-z]:)/i.test(entryName) || entryName.split(/[\\/]+/).includes("..")) {
+    throw new Error(`Unsafe path in archive: ${entryName}`);
+  }
+  if (entryName.endsWith("/")) return null;
+
+  const segments = entryName
+    .split(/[\\/]+/)
+    .filter((segment) => segment && segment !== ".");
+
+  // Skip macOS resource forks and hidden files
+  if (segments.length === 0 || segments.some((segment) => segment === "__MACOSX" || segment.startsWith("."))) {
+    return null;
+  }
+
+  const fileName = segments.join("_");
+  return IMAGE_EXTENSIONS.has(path.extname(fileName).toLowerCase()) ? fileName : null;
+}
+
+// The name, or the first numbered variant of it ("img (2).jpg") not used yet
+function toUnusedFileName(fileName: string, usedNames: Set<string>): string {
+  const extension = path.extname(fileName);
+  const base = fileName.slice(0, fileName.length - extension.length);
+  let candidate = fileName;
+  for (let n = 2; usedNames.has(candidate); n++) {
+    candidate = `${base} (${n})${extension}`;
+  }
+  return candidate;
+}
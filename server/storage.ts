@@ -1,18 +1,104 @@
-import { type ScanJob, type InsertScanJob } from "@shared/schema";
+import path from "path";
+import {
+  canTransitionJobStatus,
+  getJobSourceUrls,
+  HALTED_JOB_STATUSES,
+  scanResultSchema,
+  type AnalysisOptions,
+  type FolderIndex,
+  type InsertScanJob,
+  type JobListQuery,
+  type JobStatus,
+  type ScanJob,
+  type ScanResult,
+} from "@shared/schema";
+import { SqliteStorage } from "./db/sqlite-storage";
+import { PostgresStorage } from "./db/postgres-storage";
+
+// Raised by IStorage when a job would move to a status that isn't reachable from its current one
+export class InvalidJobStatusTransitionError extends Error {
+  readonly status = 409;
+  readonly code = "INVALID_JOB_STATUS";
+
+  constructor(readonly from: JobStatus, readonly to: JobStatus) {
+    super(`Cannot change a ${from} job to ${to}`);
+    this.name = "InvalidJobStatusTransitionError";
+  }
+}
+
+// Results are checked against the shared schema before they are saved
+export function validateScanResults(results: unknown): ScanResult[] {
+  return scanResultSchema.array().parse(results);
+}
+
+// Encrypted reference photo kept between analysis batches
+export interface ReferenceImageRecord {
+  id: string;
+  data: Buffer;
+  mimeType?: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+// Queued background analysis of a job, one per job
+export interface AnalysisTaskRecord {
+  jobId: number;
+  referenceImageIds: string[];
+  nextIndex: number;
+  // Encrypted credentials supplied by the user, when the server has none configured
+  credentials?: string;
+  attempts: number;
+  // The task is leased to a worker (or backing off after a failure) until then
+  leaseUntil?: string;
+  createdAt: string;
+}
 
 export interface IStorage {
   createScanJob(job: InsertScanJob): Promise<ScanJob>;
   getScanJob(id: number): Promise<ScanJob | undefined>;
-  updateScanJobResults(id: number, results: any, status?: string): Promise<ScanJob>;
+  // Newest first, filtered and paginated as in the query
+  listScanJobs(query: JobListQuery): Promise<{ jobs: ScanJob[]; total: number }>;
+  // Throws InvalidJobStatusTransitionError for a status change the state machine doesn't allow
+  updateScanJobResults(id: number, results: ScanResult[] | null, status?: JobStatus): Promise<ScanJob>;
+  // Changes only the status, so results saved meanwhile are kept; throws like updateScanJobResults
+  updateScanJobStatus(id: number, status: JobStatus): Promise<ScanJob>;
+  // Saves a batch's results and moves the job to `status`, unless it is paused or
+  // cancelled: that status is kept. The returned job has the status it ended up with.
+  saveScanJobProgress(id: number, results: ScanResult[], status: JobStatus): Promise<ScanJob>;
   updateJobImageCount(id: number, imageCount: number): Promise<ScanJob>;
+  updateJobAnalysisOptions(id: number, options: AnalysisOptions): Promise<ScanJob>;
+  // Removes the job, its queued task and the folder indexes it holds, returns whether the job existed
+  deleteScanJob(id: number): Promise<boolean>;
+  // Jobs answered from the folder index built by the given job (analysisOptions.indexJobId)
+  listJobIdsUsingIndex(indexJobId: number): Promise<number[]>;
+  // Inserts the index, or replaces the existing index of the same folder
+  saveFolderIndex(index: FolderIndex): Promise<void>;
+  getFolderIndex(folderId: string): Promise<FolderIndex | undefined>;
+  // Inserts the image, or refreshes its expiry when the same id is saved again
+  saveReferenceImage(image: ReferenceImageRecord): Promise<void>;
+  getReferenceImage(id: string): Promise<ReferenceImageRecord | undefined>;
+  // Removes images whose expiry is before the given ISO timestamp, returns how many
+  deleteExpiredReferenceImages(before: string): Promise<number>;
+  // Inserts the task, or replaces the existing task of the same job
+  saveAnalysisTask(task: AnalysisTaskRecord): Promise<void>;
+  // Leases the oldest task whose lease ended before `now` until `leaseUntil`
+  claimAnalysisTask(now: string, leaseUntil: string): Promise<AnalysisTaskRecord | undefined>;
+  updateAnalysisTask(jobId: number, changes: Partial<Pick<AnalysisTaskRecord, "nextIndex" | "attempts" | "leaseUntil">>): Promise<void>;
+  deleteAnalysisTask(jobId: number): Promise<void>;
 }
 
 export class MemStorage implements IStorage {
   private jobs: Map<number, ScanJob>;
+  private referenceImages: Map<string, ReferenceImageRecord>;
+  private analysisTasks: Map<number, AnalysisTaskRecord>;
+  private folderIndexes: Map<string, FolderIndex>;
   private currentId: number;
 
   constructor() {
     this.jobs = new Map();
+    this.referenceImages = new Map();
+    this.analysisTasks = new Map();
+    this.folderIndexes = new Map();
     this.currentId = 1;
   }
 
@@ -27,11 +113,50 @@ export class MemStorage implements IStorage {
     return this.jobs.get(id);
   }
 
-  async updateScanJobResults(id: number, results: any, status: string = 'complete'): Promise<ScanJob> {
+  async listScanJobs(query: JobListQuery): Promise<{ jobs: ScanJob[]; total: number }> {
+    const matching = Array.from(this.jobs.values())
+      .filter((job) => !query.status || job.status === query.status)
+      .filter((job) => !query.sourceType || job.driveType === query.sourceType)
+      .filter((job) => !query.source || getJobSourceUrls(job).some((url) => url.includes(query.source!)))
+      .sort((a, b) => b.id - a.id);
+
+    const offset = (query.page - 1) * query.pageSize;
+    return { jobs: matching.slice(offset, offset + query.pageSize), total: matching.length };
+  }
+
+  async updateScanJobResults(id: number, results: ScanResult[] | null, status: JobStatus = 'complete'): Promise<ScanJob> {
     const job = this.jobs.get(id);
     if (!job) throw new Error("Job not found");
+    if (!canTransitionJobStatus(job.status, status)) {
+      throw new InvalidJobStatusTransitionError(job.status, status);
+    }
     
-    const updatedJob = { ...job, results, status };
+    const updatedJob = { ...job, results: results && validateScanResults(results), status };
+    this.jobs.set(id, updatedJob);
+    return updatedJob;
+  }
+
+  async updateScanJobStatus(id: number, status: JobStatus): Promise<ScanJob> {
+    const job = this.jobs.get(id);
+    if (!job) throw new Error("Job not found");
+    if (!canTransitionJobStatus(job.status, status)) {
+      throw new InvalidJobStatusTransitionError(job.status, status);
+    }
+
+    const updatedJob = { ...job, status };
+    this.jobs.set(id, updatedJob);
+    return updatedJob;
+  }
+
+  async saveScanJobProgress(id: number, results: ScanResult[], status: JobStatus): Promise<ScanJob> {
+    const job = this.jobs.get(id);
+    if (!job) throw new Error("Job not found");
+    const isHalted = HALTED_JOB_STATUSES.includes(job.status);
+    if (!isHalted && !canTransitionJobStatus(job.status, status)) {
+      throw new InvalidJobStatusTransitionError(job.status, status);
+    }
+
+    const updatedJob = { ...job, results: validateScanResults(results), status: isHalted ? job.status : status };
     this.jobs.set(id, updatedJob);
     return updatedJob;
   }
@@ -51,6 +176,110 @@ export class MemStorage implements IStorage {
     
     return job;
   }
+
+  async updateJobAnalysisOptions(id: number, options: AnalysisOptions): Promise<ScanJob> {
+    const job = await this.getScanJob(id);
+    if (!job) {
+      throw new Error(`Job with id ${id} not found`);
+    }
+
+    const updatedJob = { ...job, analysisOptions: options };
+    this.jobs.set(id, updatedJob);
+    return updatedJob;
+  }
+
+  async deleteScanJob(id: number): Promise<boolean> {
+    this.analysisTasks.delete(id);
+    this.folderIndexes.forEach((index, folderId) => {
+      if (index.jobId === id) this.folderIndexes.delete(folderId);
+    });
+    return this.jobs.delete(id);
+  }
+
+  async listJobIdsUsingIndex(indexJobId: number): Promise<number[]> {
+    return Array.from(this.jobs.values())
+      .filter((job) => job.analysisOptions?.indexJobId === indexJobId)
+      .map((job) => job.id);
+  }
+
+  async saveFolderIndex(index: FolderIndex): Promise<void> {
+    this.folderIndexes.set(index.folderId, index);
+  }
+
+  async getFolderIndex(folderId: string): Promise<FolderIndex | undefined> {
+    return this.folderIndexes.get(folderId);
+  }
+
+  async saveReferenceImage(image: ReferenceImageRecord): Promise<void> {
+    this.referenceImages.set(image.id, image);
+  }
+
+  async getReferenceImage(id: string): Promise<ReferenceImageRecord | undefined> {
+    return this.referenceImages.get(id);
+  }
+
+  async deleteExpiredReferenceImages(before: string): Promise<number> {
+    let deleted = 0;
+    this.referenceImages.forEach((image, id) => {
+      if (image.expiresAt < before) {
+        this.referenceImages.delete(id);
+        deleted++;
+      }
+    });
+    return deleted;
+  }
+
+  async saveAnalysisTask(task: AnalysisTaskRecord): Promise<void> {
+    this.analysisTasks.set(task.jobId, task);
+  }
+
+  async claimAnalysisTask(now: string, leaseUntil: string): Promise<AnalysisTaskRecord | undefined> {
+    const task = Array.from(this.analysisTasks.values())
+      .filter((task) => !task.leaseUntil || task.leaseUntil < now)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))[0];
+    if (!task) return undefined;
+
+    task.leaseUntil = leaseUntil;
+    return { ...task };
+  }
+
+  async updateAnalysisTask(jobId: number, changes: Partial<Pick<AnalysisTaskRecord, "nextIndex" | "attempts" | "leaseUntil">>): Promise<void> {
+    const task = this.analysisTasks.get(jobId);
+    if (task) {
+      this.analysisTasks.set(jobId, { ...task, ...changes });
+    }
+  }
+
+  async deleteAnalysisTask(jobId: number): Promise<void> {
+    this.analysisTasks.delete(jobId);
+  }
+}
+
+/**
+ * Pick the job store from FIFY_STORAGE: "sqlite" (default, a file under ./data),
+ * "postgres" (DATABASE_URL) or "memory" (jobs are lost on restart).
+ */
+export function createStorage(): IStorage {
+  const type = process.env.FIFY_STORAGE?.trim() || "sqlite";
+
+  switch (type) {
+    case "memory":
+      return new MemStorage();
+    case "sqlite": {
+      const filePath = path.resolve(process.env.FIFY_SQLITE_PATH || path.join("data", "fify.db"));
+      console.log(`[DB] Using SQLite job storage at ${filePath}`);
+      return new SqliteStorage(filePath);
+    }
+    case "postgres": {
+      if (!process.env.DATABASE_URL) {
+        throw new Error("DATABASE_URL must be set to use Postgres job storage");
+      }
+      console.log("[DB] Using Postgres job storage");
+      return new PostgresStorage(process.env.DATABASE_URL);
+    }
+    default:
+      throw new Error(`Unsupported job storage: ${type}`);
+  }
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -1,32 +1,324 @@
 import { z } from "zod";
 
+// How a source folder is listed; persisted on the job so every batch sees the same list
+export const scanOptionsSchema = z.object({
+  recursive: z.boolean().optional(),
+  maxDepth: z.number().int().min(1).max(10).optional(),
+});
+
+export type ScanOptions = z.infer<typeof scanOptionsSchema>;
+
+// Lists sent in multipart requests arrive as JSON strings; one that isn't valid
+// JSON is left as it is for the schema to reject
+function parseJsonField(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+// Photos of the person searched for (different angles or ages); every image is compared with each
+export const MAX_REFERENCE_PHOTOS = 5;
+
+// People searched for in one analysis
+export const MAX_PEOPLE_PER_ANALYSIS = 10;
+
+// A named person searched for, whose reference photos are uploaded in the order of the list
+export const analysisPersonSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  referenceCount: z.number().int().min(1).max(MAX_REFERENCE_PHOTOS),
+});
+
+export type AnalysisPerson = z.infer<typeof analysisPersonSchema>;
+
+// Relative position of a face inside an image (ratios of its width/height)
+export const boundingBoxSchema = z.object({
+  width: z.number(),
+  height: z.number(),
+  left: z.number(),
+  top: z.number(),
+});
+
+export type BoundingBox = z.infer<typeof boundingBoxSchema>;
+
+// How faces are compared; chosen when the analysis starts and persisted on the job
+export const analysisOptionsSchema = z.object({
+  // Lowest similarity (0-100) that counts as a match
+  similarityThreshold: z.coerce.number().min(0).max(100).default(70),
+  // How strictly low-quality faces are left out of the comparison (Rekognition's QualityFilter)
+  qualityFilter: z.enum(["NONE", "AUTO", "LOW", "MEDIUM", "HIGH"]).default("LOW"),
+  // "compare" compares every image with every reference photo; "collection" stores the faces of
+  // every image once, then finds them with one search per reference photo, which also makes
+  // searching the job again for someone else cheap
+  matchMode: z.enum(["compare", "collection"]).default("compare"),
+  // Several people searched for at once; without it all reference photos are of one unnamed person.
+  // Sent as a JSON string in multipart requests.
+  people: z.preprocess(
+    parseJsonField,
+    z.array(analysisPersonSchema).min(1).max(MAX_PEOPLE_PER_ANALYSIS),
+  ).optional(),
+  // Face cut out of each reference photo (null to use the whole photo), recorded once a face is
+  // picked on a group photo so a resumed analysis uses the same one. JSON string in multipart requests.
+  referenceCrops: z.preprocess(
+    parseJsonField,
+    z.array(boundingBoxSchema.nullable()),
+  ).optional(),
+  // Set by the server when the analysis was answered from a folder index: the job whose
+  // collection holds the faces of the folder. Never taken from the request.
+  indexJobId: z.number().int().optional(),
+});
+
+export type AnalysisOptions = z.infer<typeof analysisOptionsSchema>;
+
+export const DEFAULT_ANALYSIS_OPTIONS: AnalysisOptions = analysisOptionsSchema.parse({});
+
+export const jobStatusSchema = z.enum([
+  "pending",    // Scanned, waiting for a reference photo
+  "processing", // Batches are being analyzed
+  "paused",     // Stopped by the user, can be resumed
+  "complete",
+  "failed",     // The background worker gave up after repeated errors
+  "cancelled",  // Stopped by the user for good, results so far are kept
+]);
+
+export type JobStatus = z.infer<typeof jobStatusSchema>;
+
+// Legal status changes; saving a job without changing its status is always allowed
+export const JOB_STATUS_TRANSITIONS: Record<JobStatus, readonly JobStatus[]> = {
+  pending: ["processing", "cancelled"],
+  processing: ["paused", "complete", "failed", "cancelled"],
+  paused: ["processing", "cancelled"],
+  complete: [],
+  failed: ["processing"], // Retrying a failed analysis starts it again
+  cancelled: [],
+};
+
+export function canTransitionJobStatus(from: JobStatus, to: JobStatus): boolean {
+  return from === to || JOB_STATUS_TRANSITIONS[from].includes(to);
+}
+
+// Statuses a job may have before moving to `to`
+export function getJobStatusesAllowedBefore(to: JobStatus): JobStatus[] {
+  return jobStatusSchema.options.filter((from) => canTransitionJobStatus(from, to));
+}
+
+// A face found on a reference photo before the analysis starts
+export const detectedFaceSchema = z.object({
+  boundingBox: boundingBoxSchema,
+  // How sure the detector is that this is a face (0-100)
+  confidence: z.number(),
+  // Image quality of the face (0-100), when the engine measures it
+  brightness: z.number().optional(),
+  sharpness: z.number().optional(),
+  eyesOpen: z.boolean().optional(),
+  sunglasses: z.boolean().optional(),
+});
+
+export type DetectedFace = z.infer<typeof detectedFaceSchema>;
+
+// Problems with a reference photo that make matches unlikely
+export const referenceIssueSchema = z.enum(["NO_FACE", "MULTIPLE_FACES", "LOW_QUALITY", "EYES_CLOSED", "SUNGLASSES"]);
+
+export type ReferenceIssue = z.infer<typeof referenceIssueSchema>;
+
+// Issues the analysis can't start with: there is no face to compare, or no telling which one
+export const BLOCKING_REFERENCE_ISSUES: ReferenceIssue[] = ["NO_FACE", "MULTIPLE_FACES"];
+
+// Outcome of checking one reference photo
+export interface ReferenceCheck {
+  referenceIndex: number;
+  faces: DetectedFace[];
+  // Face the analysis uses, when there is one
+  faceIndex?: number;
+  issues: ReferenceIssue[];
+}
+
+// Choices made after a failed check, sent back with the reference photos
+export const referenceCheckChoicesSchema = z.object({
+  // Face to use on each reference photo (null to let the check decide); JSON string in multipart requests
+  referenceFaces: z.preprocess(
+    parseJsonField,
+    z.array(z.number().int().min(0).nullable()),
+  ).optional(),
+  // Start even though some photos only have quality warnings
+  acceptWarnings: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+});
+
+export type ReferenceCheckChoices = z.infer<typeof referenceCheckChoicesSchema>;
+
+// A face in an image compared with the reference photos
+export const faceMatchSchema = z.object({
+  similarity: z.number(),
+  boundingBox: boundingBoxSchema.optional(),
+  // 0-based index of the reference photo it is most similar to
+  referenceIndex: z.number().int().optional(),
+  // Person that reference photo belongs to, when several people are searched for
+  personIndex: z.number().int().optional(),
+  // Id of the face in the job's collection, in collection mode
+  faceId: z.string().optional(),
+});
+
+export type FaceMatch = z.infer<typeof faceMatchSchema>;
+
+// Outcome of comparing one image with the reference photo
+export const scanResultSchema = z.object({
+  imageId: z.number().int(), // 1-based position of the image in the job
+  similarity: z.number(), // Of the most similar face, even below the threshold
+  matched: z.boolean(),
+  // Reference photo the most similar face was matched against
+  referenceIndex: z.number().int().optional(),
+  // Every face compared with the reference and its raw similarity, best first,
+  // so results can be re-thresholded without comparing them again
+  faces: z.array(faceMatchSchema).optional(),
+  // Faces at or above the job's threshold, best first; missing on results saved before faces were kept
+  matches: z.array(faceMatchSchema).optional(),
+  // Faces in the image that did not match
+  unmatchedFaceCount: z.number().int().optional(),
+  error: z.string().optional(),
+  url: z.string().optional(),
+  driveUrl: z.string().optional(),
+  folderPath: z.string().optional(),
+  sourceIndex: z.number().int().optional(),
+  sourceUrl: z.string().optional(),
+});
+
+export type ScanResult = z.infer<typeof scanResultSchema>;
+
+// The result as it would have been at another threshold; results saved before
+// raw similarities were kept can't be re-thresholded and are returned as they are
+export function applySimilarityThreshold(result: ScanResult, threshold: number): ScanResult {
+  if (!result.faces) return result;
+
+  const matches = result.faces.filter((face) => face.similarity >= threshold);
+  return {
+    ...result,
+    matched: matches.length > 0,
+    matches,
+    unmatchedFaceCount: result.faces.length - matches.length,
+  };
+}
+
+// Index of the first image without a result; batches are saved whole and in order
+export function getNextImageIndex(results: ScanResult[]): number {
+  return results.reduce((next, result) => Math.max(next, result.imageId), 0);
+}
+
 // Define the ScanJob type
 export type ScanJob = {
   id: number;
-  driveUrl: string;
-  driveType: string; // 'gdrive'
+  driveUrl: string; // First source, kept for single-source clients
+  sourceUrls?: string[]; // Every source of the job, in scan order
+  driveType: string; // 'gdrive' | 'local' | 's3' | 'zip' | 'fixture' | 'multi'
+  scanOptions?: ScanOptions;
+  analysisOptions?: AnalysisOptions;
   imageCount: number;
-  status: string; // 'pending' | 'scanning' | 'complete' | 'error'
-  results: any[] | null;
+  status: JobStatus;
+  results: ScanResult[] | null;
   createdAt: string;
 };
 
+// A Drive folder indexed once by a collection-mode job, so that later analyses of
+// the folder are answered with a search of that job's collection
+export type FolderIndex = {
+  folderId: string;
+  jobId: number; // The job whose collection holds the folder's faces
+  scanOptions?: ScanOptions;
+  // The folder's listing when it was indexed; the index is stale once its fingerprint changes
+  imageCount: number;
+  modifiedTime: string | null; // Latest modifiedTime of its images
+  fingerprint: string; // Hash of every image's id, subfolder and modifiedTime
+  createdAt: string;
+};
+
+// Messages pushed on /api/jobs/:jobId/events while a job is analyzed
+export type JobEvent =
+  // Current state, sent first on every connection
+  | { type: "snapshot"; status: JobStatus; results: ScanResult[]; processed: number; total: number }
+  // One image has been compared
+  | { type: "result"; result: ScanResult }
+  // A batch has been saved
+  | { type: "progress"; processed: number; total: number }
+  // The job was paused or resumed, or reached a final status; the stream ends after a final one
+  | { type: "status"; status: JobStatus };
+
+// Statuses after which a job no longer changes on its own
+export const TERMINAL_JOB_STATUSES: readonly JobStatus[] = ["complete", "failed", "cancelled"];
+
+// Statuses set by the user that stop batches from being processed
+export const HALTED_JOB_STATUSES: readonly JobStatus[] = ["paused", "cancelled"];
+
+// Every source of a job; jobs created before multi-source support only have driveUrl
+export function getJobSourceUrls(job: Pick<ScanJob, "driveUrl" | "sourceUrls">): string[] {
+  return job.sourceUrls && job.sourceUrls.length > 0 ? job.sourceUrls : [job.driveUrl];
+}
+
+// Scan sources: Google Drive folders, allow-listed local folders (file://) or S3 prefixes (s3://)
+export function isSupportedSourceUrl(url: string): boolean {
+  return url.includes('drive.google') || url.startsWith('file://') || url.startsWith('s3://');
+}
+
 // URL validation schema
 export const driveUrlSchema = z.object({
   url: z.string().url()
-    .refine(url => url.includes('drive.google'), {
-      message: "URL must be from Google Drive"
+    .refine(isSupportedSourceUrl, {
+      message: "URL must be from Google Drive, a local folder (file://) or an S3 bucket (s3://)"
     })
 });
 
+// A job can combine several folders, possibly from different providers
+export const MAX_SOURCES_PER_JOB = 10;
+
+export const sourceUrlsSchema = z.object({
+  urls: z.array(driveUrlSchema.shape.url).min(1).max(MAX_SOURCES_PER_JOB)
+});
+
 // Schema for creating new jobs
 export const insertScanJobSchema = z.object({
   driveUrl: z.string(),
+  sourceUrls: z.array(z.string()).optional(),
   driveType: z.string(),
+  scanOptions: scanOptionsSchema.optional(),
   imageCount: z.number(),
-  status: z.string(),
+  status: jobStatusSchema,
   createdAt: z.string()
 });
 
+// Query string of GET /api/jobs
+export const jobListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  status: jobStatusSchema.optional(),
+  // Provider of the job, as stored in driveType ('gdrive', 'local', 's3', 'zip', 'fixture', 'multi')
+  sourceType: z.string().optional(),
+  // Part of any of the job's source URLs
+  source: z.string().trim().min(1).optional(),
+});
+
+export type JobListQuery = z.infer<typeof jobListQuerySchema>;
+
+// A job in the history list, without its (possibly large) results
+export type JobSummary = Omit<ScanJob, "results"> & {
+  processedCount: number;
+  matchCount: number;
+};
+
+export type JobListPage = {
+  jobs: JobSummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+export function toJobSummary(job: ScanJob): JobSummary {
+  const { results, ...summary } = job;
+  return {
+    ...summary,
+    processedCount: results?.length || 0,
+    matchCount: results?.filter((result) => result.matched).length || 0,
+  };
+}
+
 export type DriveUrlInput = z.infer<typeof driveUrlSchema>;
 export type InsertScanJob = z.infer<typeof insertScanJobSchema>;
@@ -12,7 +12,11 @@ export const translations = {
     // Forms and inputs
     "url.label": "Google Drive URL",
     "url.placeholder": "Enter a public Google Drive URL",
-    "url.validation": "URL must be from Google Drive",
+    "url.validation": "URL must be from Google Drive, a local folder (file://) or an S3 bucket (s3://)",
+    "recursive.label": "Include subfolders",
+    "sources.add": "Add another folder",
+    "sources.remove": "Remove folder",
+    "sources.invalid": "Every additional folder must be a valid Google Drive, file:// or s3:// URL",
     "googleApiKey.label": "Google API Key",
     "googleApiKey.placeholder": "Enter a Google API Key",
     "googleApiKey.required": "Google API Key is required",
@@ -26,8 +30,29 @@ export const translations = {
     // Buttons
     "scan.button": "Start Scanning",
     "scan.loading": "Scanning...",
+    "zip.divider": "or",
+    "zip.label": "Upload a ZIP archive of photos",
+    "zip.button": "Scan ZIP Archive",
+    "zip.loading": "Uploading...",
     "analyze.button": "Analyze Faces",
     "analyze.loading": "Analyzing...",
+    "analyze.background": "The analysis continues on the server. You can close this page and check job #{id} later.",
+    "analyze.pause": "Pause",
+    "analyze.resume": "Resume",
+    "analyze.cancel": "Cancel",
+    "analyze.paused": "Analysis paused",
+    "analyze.cancelled": "Analysis cancelled. Showing the results found so far.",
+    "analyze.resumeHint": "This analysis stopped after image {index} of {total}. Upload the same photo again to continue from there.",
+    "analysisOptions.threshold": "Match threshold (%)",
+    "analysisOptions.qualityFilter": "Face quality filter",
+    "analysisOptions.quality.NONE": "None (compare every face)",
+    "analysisOptions.quality.AUTO": "Automatic",
+    "analysisOptions.quality.LOW": "Low",
+    "analysisOptions.quality.MEDIUM": "Medium",
+    "analysisOptions.quality.HIGH": "High",
+    "analysisOptions.matchMode": "Matching",
+    "analysisOptions.mode.compare": "Compare every photo with the reference",
+    "analysisOptions.mode.collection": "Store the faces once (faster for large folders and repeat searches)",
     "submit": "Submit",
 
     // Messages
@@ -35,9 +60,25 @@ export const translations = {
     "noImages.description": "The provided directory doesn't contain any compatible images.",
     "error.credentials": "Cloud storage access is not properly configured. Please check the credentials.",
     "error.generic": "An error occurred. Please try again.",
+    "error.folderNotPublic": "This folder isn't shared publicly. In Google Drive, set its sharing to \"Anyone with the link\" (Shared Drives must also allow sharing outside your organization) and try again.",
+    "error.analysisFailed": "The analysis stopped after repeated errors. Please try again.",
+    "error.sessionExpired": "This analysis session is no longer valid. Please start the analysis again.",
     "foundImages": "Found {count} Images",
     "uploadInstructions": "Upload a clear front-facing photo showing the entire face. Best results come from well-lit photos without sunglasses or masks.",
     "dropzoneText": "Drag & drop a face photo or click to select",
+    "referencePhotos.hint": "Add up to {max} photos of the same person, e.g. from different angles or ages, to find more matches",
+    "referencePhotos.remove": "Remove photo",
+    "referenceCheck.NO_FACE": "No face was found on this photo. Choose one where the face is clearly visible.",
+    "referenceCheck.MULTIPLE_FACES": "This photo has several faces. Click the face of the person you are looking for:",
+    "referenceCheck.LOW_QUALITY": "The face is small, dark or blurred, so fewer photos may match.",
+    "referenceCheck.EYES_CLOSED": "The eyes are closed, so fewer photos may match.",
+    "referenceCheck.SUNGLASSES": "The person is wearing sunglasses, so fewer photos may match.",
+    "referenceCheck.face": "Face {index} from the left",
+    "referenceCheck.acceptWarnings": "Use these photos anyway",
+    "people.add": "Add another person",
+    "people.name": "Name",
+    "people.namePlaceholder": "Name of the person",
+    "people.remove": "Remove person",
 
     // Results
     "results.title": "Analysis Results",
@@ -50,7 +91,44 @@ export const translations = {
     "results.downloadCSV": "Download CSV",
     "results.image": "Image #{id}",
     "results.similarityPercentage": "{value}% similarity",
-    "results.noResultsAvailable": "No results available"
+    "results.noResultsAvailable": "No results available",
+    "results.source": "Source {index}: {url}",
+    "results.matchedFaces": "{count} matching faces in this photo",
+    "results.otherFaces": "{count} other faces in this photo",
+    "results.referencePhoto": "Best match with reference photo #{index}",
+    "results.personMatches": "{name}: {count} images",
+    "results.threshold": "Show matches from {value}% similarity",
+
+    // Job history
+    "jobs.title": "Job history",
+    "jobs.link": "History",
+    "jobs.newScan": "New scan",
+    "jobs.empty": "No jobs found",
+    "jobs.loadError": "Unable to load jobs. Please try again.",
+    "jobs.filter.allStatuses": "All statuses",
+    "jobs.filter.source": "Filter by folder URL",
+    "jobs.job": "Job #{id}",
+    "jobs.progress": "{processed} of {total} images analyzed",
+    "jobs.matches": "{count} matches",
+    "jobs.page": "Page {page} of {pages}",
+    "jobs.previous": "Previous",
+    "jobs.next": "Next",
+    "jobs.back": "Back to history",
+    "jobs.continue": "Continue analysis",
+    "jobs.notFound": "Job not found",
+    "jobs.noResults": "This job has no results yet.",
+    "jobs.searchAgain": "Search for someone else",
+    "jobs.delete": "Delete job",
+    "jobs.deleteTitle": "Delete job #{id}?",
+    "jobs.deleteDescription": "Its results, and the faces stored for it, will be removed for good.",
+    "jobs.deleteCancel": "Keep it",
+    "jobs.deleteCredentials": "Enter your AWS credentials to remove the faces stored for this job.",
+    "status.pending": "Pending",
+    "status.processing": "Processing",
+    "status.paused": "Paused",
+    "status.complete": "Complete",
+    "status.failed": "Failed",
+    "status.cancelled": "Cancelled"
   },
   "pt-BR": {
     // Hero section
@@ -60,7 +138,11 @@ export const translations = {
     // Forms and inputs
     "url.label": "URL do Google Drive",
     "url.placeholder": "Adicione uma URL pública do Google Drive",
-    "url.validation": "A URL deve ser do Google Drive",
+    "url.validation": "A URL deve ser do Google Drive, de uma pasta local (file://) ou de um bucket S3 (s3://)",
+    "recursive.label": "Incluir subpastas",
+    "sources.add": "Adicionar outra pasta",
+    "sources.remove": "Remover pasta",
+    "sources.invalid": "Todas as pastas adicionais devem ser URLs válidas do Google Drive, file:// ou s3://",
     "googleApiKey.label": "Chave da API do Google",
     "googleApiKey.placeholder": "Adicione uma chave da API do Google",
     "googleApiKey.required": "A chave da API do Google é obrigatória",
@@ -74,8 +156,29 @@ export const translations = {
     // Buttons
     "scan.button": "Iniciar mapeamento",
     "scan.loading": "Mapeando...",
+    "zip.divider": "ou",
+    "zip.label": "Envie um arquivo ZIP com as fotos",
+    "zip.button": "Mapear Arquivo ZIP",
+    "zip.loading": "Enviando...",
     "analyze.button": "Analisar Rostos",
     "analyze.loading": "Analisando...",
+    "analyze.background": "A análise continua no servidor. Você pode fechar esta página e consultar o trabalho #{id} depois.",
+    "analyze.pause": "Pausar",
+    "analyze.resume": "Retomar",
+    "analyze.cancel": "Cancelar",
+    "analyze.paused": "Análise pausada",
+    "analyze.cancelled": "Análise cancelada. Mostrando os resultados encontrados até agora.",
+    "analyze.resumeHint": "Esta análise parou na imagem {index} de {total}. Envie a mesma foto novamente para continuar de onde parou.",
+    "analysisOptions.threshold": "Limite de correspondência (%)",
+    "analysisOptions.qualityFilter": "Filtro de qualidade do rosto",
+    "analysisOptions.quality.NONE": "Nenhum (comparar todos os rostos)",
+    "analysisOptions.quality.AUTO": "Automático",
+    "analysisOptions.quality.LOW": "Baixo",
+    "analysisOptions.quality.MEDIUM": "Médio",
+    "analysisOptions.quality.HIGH": "Alto",
+    "analysisOptions.matchMode": "Comparação",
+    "analysisOptions.mode.compare": "Comparar cada foto com a referência",
+    "analysisOptions.mode.collection": "Guardar os rostos uma vez (mais rápido para pastas grandes e novas buscas)",
     "submit": "Enviar",
 
     // Messages
@@ -83,9 +186,25 @@ export const translations = {
     "noImages.description": "O diretório fornecido não contém imagens compatíveis.",
     "error.credentials": "O acesso ao armazenamento na nuvem não está configurado corretamente. Verifique suas credenciais.",
     "error.generic": "Ocorreu um erro. Por favor, tente novamente.",
+    "error.folderNotPublic": "Esta pasta não está compartilhada publicamente. No Google Drive, defina o compartilhamento como \"Qualquer pessoa com o link\" (Drives compartilhados também precisam permitir compartilhamento fora da organização) e tente novamente.",
+    "error.analysisFailed": "A análise foi interrompida após erros repetidos. Por favor, tente novamente.",
+    "error.sessionExpired": "Esta sessão de análise não é mais válida. Por favor, inicie a análise novamente.",
     "foundImages": "Encontradas {count} Imagens",
     "uploadInstructions": "Envie uma foto frontal nítida mostrando o rosto inteiro. Os melhores resultados vêm de fotos bem iluminadas sem óculos de sol ou máscaras.",
     "dropzoneText": "Arraste e solte uma foto do rosto ou clique para selecionar",
+    "referencePhotos.hint": "Adicione até {max} fotos da mesma pessoa, por exemplo de ângulos ou idades diferentes, para encontrar mais correspondências",
+    "referencePhotos.remove": "Remover foto",
+    "referenceCheck.NO_FACE": "Nenhum rosto foi encontrado nesta foto. Escolha uma em que o rosto esteja bem visível.",
+    "referenceCheck.MULTIPLE_FACES": "Esta foto tem vários rostos. Clique no rosto da pessoa que você procura:",
+    "referenceCheck.LOW_QUALITY": "O rosto está pequeno, escuro ou desfocado, então menos fotos podem corresponder.",
+    "referenceCheck.EYES_CLOSED": "Os olhos estão fechados, então menos fotos podem corresponder.",
+    "referenceCheck.SUNGLASSES": "A pessoa está usando óculos escuros, então menos fotos podem corresponder.",
+    "referenceCheck.face": "{index}º rosto da esquerda",
+    "referenceCheck.acceptWarnings": "Usar estas fotos mesmo assim",
+    "people.add": "Adicionar outra pessoa",
+    "people.name": "Nome",
+    "people.namePlaceholder": "Nome da pessoa",
+    "people.remove": "Remover pessoa",
 
     // Results
     "results.title": "Resultados da Análise",
@@ -98,7 +217,44 @@ export const translations = {
     "results.downloadCSV": "Baixar CSV",
     "results.image": "Imagem #{id}",
     "results.similarityPercentage": "{value}% de similaridade",
-    "results.noResultsAvailable": "Nenhum resultado disponível"
+    "results.noResultsAvailable": "Nenhum resultado disponível",
+    "results.source": "Origem {index}: {url}",
+    "results.matchedFaces": "{count} rostos correspondentes nesta foto",
+    "results.otherFaces": "{count} outros rostos nesta foto",
+    "results.referencePhoto": "Melhor correspondência com a foto de referência nº {index}",
+    "results.personMatches": "{name}: {count} imagens",
+    "results.threshold": "Mostrar correspondências a partir de {value}% de semelhança",
+
+    // Job history
+    "jobs.title": "Histórico de análises",
+    "jobs.link": "Histórico",
+    "jobs.newScan": "Nova análise",
+    "jobs.empty": "Nenhuma análise encontrada",
+    "jobs.loadError": "Não foi possível carregar as análises. Por favor, tente novamente.",
+    "jobs.filter.allStatuses": "Todos os status",
+    "jobs.filter.source": "Filtrar pela URL da pasta",
+    "jobs.job": "Análise #{id}",
+    "jobs.progress": "{processed} de {total} imagens analisadas",
+    "jobs.matches": "{count} correspondências",
+    "jobs.page": "Página {page} de {pages}",
+    "jobs.previous": "Anterior",
+    "jobs.next": "Próxima",
+    "jobs.back": "Voltar ao histórico",
+    "jobs.continue": "Continuar análise",
+    "jobs.notFound": "Análise não encontrada",
+    "jobs.noResults": "Esta análise ainda não tem resultados.",
+    "jobs.searchAgain": "Procurar outra pessoa",
+    "jobs.delete": "Excluir análise",
+    "jobs.deleteTitle": "Excluir a análise nº {id}?",
+    "jobs.deleteDescription": "Os resultados e os rostos guardados para ela serão removidos definitivamente.",
+    "jobs.deleteCancel": "Manter",
+    "jobs.deleteCredentials": "Informe suas credenciais da AWS para remover os rostos guardados para esta análise.",
+    "status.pending": "Pendente",
+    "status.processing": "Processando",
+    "status.paused": "Pausada",
+    "status.complete": "Concluída",
+    "status.failed": "Falhou",
+    "status.cancelled": "Cancelada"
   }
 } as const;
 